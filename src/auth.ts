@@ -0,0 +1,265 @@
+// Bearer token authentication and DNS rebinding protection for the HTTP transports
+import { constants, createPublicKey, KeyObject, timingSafeEqual, verify } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import type { NextFunction, Request, RequestHandler, Response } from 'express';
+import { InsufficientScopeError, InvalidTokenError, OAuthError, ServerError } from '@modelcontextprotocol/sdk/server/auth/errors.js';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+// Declares req.auth, which the SDK transports pass on to request handlers
+import type {} from '@modelcontextprotocol/sdk/server/auth/middleware/bearerAuth.js';
+import { logger } from './config.js';
+
+// Settings for validating OAuth 2.1 access tokens issued for this server
+export interface JwtOptions {
+  issuer: string;
+  jwksFile: string; // JSON Web Key Set with the issuer's public keys
+  audience: string; // Expected "aud", normally the resource URL of this server
+  requiredScopes: string[];
+}
+
+// Settings for the bearer auth middleware
+export interface AuthOptions {
+  staticTokens: string[];
+  jwt?: JwtOptions;
+  resourceMetadataUrl?: string; // Advertised in WWW-Authenticate when OAuth is enabled
+}
+
+// Settings for the Origin/Host allow-list
+export interface OriginGuardOptions {
+  allowedHosts: string[]; // Host headers accepted; empty accepts any
+  allowedOrigins: string[]; // Origin headers accepted; requests without one are always accepted
+}
+
+// Split a comma or space separated setting into its values
+export const parseList = (value = ''): string[] =>
+  value.split(/[\s,]+/).map(item => item.trim()).filter(Boolean);
+
+// Leeway for clock differences when checking exp and nbf
+const CLOCK_SKEW_SECONDS = 60;
+
+// Signature parameters for the JWS algorithms accepted in access tokens
+const JWT_ALGORITHMS: Record<string, { hash: string | null; options?: { padding?: number; saltLength?: number; dsaEncoding?: 'ieee-p1363' } }> = {
+  RS256: { hash: 'sha256' },
+  RS384: { hash: 'sha384' },
+  RS512: { hash: 'sha512' },
+  PS256: { hash: 'sha256', options: { padding: constants.RSA_PKCS1_PSS_PADDING, saltLength: 32 } },
+  PS384: { hash: 'sha384', options: { padding: constants.RSA_PKCS1_PSS_PADDING, saltLength: 48 } },
+  PS512: { hash: 'sha512', options: { padding: constants.RSA_PKCS1_PSS_PADDING, saltLength: 64 } },
+  ES256: { hash: 'sha256', options: { dsaEncoding: 'ieee-p1363' } },
+  ES384: { hash: 'sha384', options: { dsaEncoding: 'ieee-p1363' } },
+  ES512: { hash: 'sha512', options: { dsaEncoding: 'ieee-p1363' } },
+  EdDSA: { hash: null },
+};
+
+// Shortest time between two reads of the JWKS file, so unknown key IDs can't force a read per request
+const JWKS_RELOAD_INTERVAL_MS = 60_000;
+
+// Decode one base64url segment of a JWT as a JSON object
+const decodeSegment = (segment: string): Record<string, any> => {
+  let value: unknown;
+  try {
+    value = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+  } catch {
+    throw new InvalidTokenError('Malformed access token');
+  }
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new InvalidTokenError('Malformed access token');
+  }
+  return value as Record<string, any>;
+};
+
+// Parse a URL, or undefined when the value isn't one
+const parseUrl = (value: string): URL | undefined => {
+  try {
+    return new URL(value);
+  } catch {
+    return undefined;
+  }
+};
+
+// Scopes granted by a token: the "scp" list, or the space separated "scope" string
+const scopesOf = (claims: Record<string, any>): string[] => {
+  if (Array.isArray(claims.scp) && claims.scp.every(scope => typeof scope === 'string')) {
+    return claims.scp;
+  }
+  if (claims.scp === undefined && (claims.scope === undefined || typeof claims.scope === 'string')) {
+    return parseList(claims.scope);
+  }
+  throw new InvalidTokenError('Malformed token scopes');
+};
+
+// Compare tokens in constant time
+const tokensMatch = (a: string, b: string): boolean => {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+};
+
+/**
+ * Verifies JWT access tokens against the issuer's JWKS file.
+ * The file is read again when a token names a key ID it doesn't hold, at most once a minute,
+ * so rotated keys are picked up without a restart.
+ */
+export class JwtVerifier {
+  private readonly options: JwtOptions;
+  private keys = new Map<string, KeyObject>();
+  private loadedAt = 0;
+
+  constructor(options: JwtOptions) {
+    this.options = options;
+    this.loadKeys();
+  }
+
+  private loadKeys(): void {
+    const jwks = JSON.parse(readFileSync(this.options.jwksFile, 'utf8')) as { keys?: Array<Record<string, any>> };
+    this.keys = new Map((jwks.keys ?? [])
+      .filter(jwk => !jwk.use || jwk.use === 'sig')
+      .map((jwk, index) => [jwk.kid ?? `#${index}`, createPublicKey({ key: jwk, format: 'jwk' })]));
+    this.loadedAt = Date.now();
+  }
+
+  // Key for a token: by key ID, or the only key when the token names none
+  private findKey(kid?: string): KeyObject | undefined {
+    if (!kid) {
+      return this.keys.size === 1 ? this.keys.values().next().value : undefined;
+    }
+    if (!this.keys.has(kid) && Date.now() - this.loadedAt >= JWKS_RELOAD_INTERVAL_MS) {
+      this.loadKeys();
+    }
+    return this.keys.get(kid);
+  }
+
+  verify(token: string): AuthInfo {
+    const segments = token.split('.');
+    if (segments.length !== 3) {
+      throw new InvalidTokenError('Malformed access token');
+    }
+
+    const header = decodeSegment(segments[0]);
+    if (typeof header.alg !== 'string' || !Object.hasOwn(JWT_ALGORITHMS, header.alg)) {
+      throw new InvalidTokenError('Unsupported token algorithm');
+    }
+    const algorithm = JWT_ALGORITHMS[header.alg];
+    const key = this.findKey(header.kid);
+    if (!key) {
+      throw new InvalidTokenError('Token signed with an unknown key');
+    }
+    const signed = Buffer.from(`${segments[0]}.${segments[1]}`);
+    if (!verify(algorithm.hash, signed, { key, ...algorithm.options }, Buffer.from(segments[2], 'base64url'))) {
+      throw new InvalidTokenError('Invalid token signature');
+    }
+
+    const claims = decodeSegment(segments[1]);
+    const now = Date.now() / 1000;
+    if (claims.iss !== this.options.issuer) {
+      throw new InvalidTokenError('Token was issued by another issuer');
+    }
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!audiences.includes(this.options.audience)) {
+      throw new InvalidTokenError('Token was issued for another resource');
+    }
+    if (typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW_SECONDS < now) {
+      throw new InvalidTokenError('Token has expired');
+    }
+    if (typeof claims.nbf === 'number' && claims.nbf - CLOCK_SKEW_SECONDS > now) {
+      throw new InvalidTokenError('Token is not valid yet');
+    }
+
+    const scopes = scopesOf(claims);
+    if (!this.options.requiredScopes.every(scope => scopes.includes(scope))) {
+      throw new InsufficientScopeError(`Token requires scopes: ${this.options.requiredScopes.join(' ')}`);
+    }
+
+    return {
+      token,
+      clientId: claims.client_id ?? claims.azp ?? claims.sub ?? '',
+      scopes,
+      expiresAt: claims.exp,
+      resource: parseUrl(this.options.audience),
+    };
+  }
+}
+
+// Quote an auth-param value, escaping quotes and backslashes (RFC 9110 quoted-string)
+const quoted = (value: string): string => `"${value.replace(/["\\]/g, '\\$&')}"`;
+
+// Build the WWW-Authenticate challenge of the MCP authorization spec (RFC 6750, RFC 9728)
+const challenge = (resourceMetadataUrl?: string, error?: OAuthError): string => {
+  const params = [
+    ...(error ? [`error=${quoted(error.errorCode)}`, `error_description=${quoted(error.message)}`] : []),
+    ...(resourceMetadataUrl ? [`resource_metadata=${quoted(resourceMetadataUrl)}`] : []),
+  ];
+  return params.length > 0 ? `Bearer ${params.join(', ')}` : 'Bearer';
+};
+
+/**
+ * Require a bearer token on every request: one of the static tokens, or a JWT accepted by
+ * the verifier. Missing or invalid tokens get 401 and tokens without the required scopes 403,
+ * both with a WWW-Authenticate challenge pointing at the protected resource metadata.
+ */
+export function requireBearerToken(options: AuthOptions): RequestHandler {
+  const verifier = options.jwt && new JwtVerifier(options.jwt);
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const [scheme, token] = (req.headers.authorization ?? '').split(' ');
+    if (!token || scheme.toLowerCase() !== 'bearer') {
+      res.set('WWW-Authenticate', challenge(options.resourceMetadataUrl));
+      res.status(401).json(new InvalidTokenError('Missing bearer token').toResponseObject());
+      return;
+    }
+
+    try {
+      if (options.staticTokens.some(staticToken => tokensMatch(staticToken, token))) {
+        req.auth = { token, clientId: 'static', scopes: [] };
+      } else if (verifier) {
+        req.auth = verifier.verify(token);
+      } else {
+        throw new InvalidTokenError('Unknown access token');
+      }
+      next();
+    } catch (error) {
+      if (error instanceof InsufficientScopeError) {
+        res.set('WWW-Authenticate', challenge(options.resourceMetadataUrl, error));
+        res.status(403).json(error.toResponseObject());
+      } else if (error instanceof InvalidTokenError) {
+        res.set('WWW-Authenticate', challenge(options.resourceMetadataUrl, error));
+        res.status(401).json(error.toResponseObject());
+      } else {
+        logger.error(`Failed to verify access token: ${(error as Error).message}`);
+        res.status(500).json(new ServerError('Failed to verify access token').toResponseObject());
+      }
+    }
+  };
+}
+
+// Reject requests whose Host or Origin header isn't allowed, to block DNS rebinding
+export function originGuard(options: OriginGuardOptions): RequestHandler {
+  const allowedHosts = new Set(options.allowedHosts.map(host => host.toLowerCase()));
+  const allowedOrigins = new Set(options.allowedOrigins.map(origin => origin.toLowerCase().replace(/\/+$/, '')));
+
+  const forbid = (res: Response, message: string) => {
+    res.status(403).json({
+      jsonrpc: '2.0',
+      error: {
+        code: -32000,
+        message: `Forbidden: ${message}`,
+      },
+      id: null,
+    });
+  };
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const host = req.headers.host?.toLowerCase();
+    if (allowedHosts.size > 0 && (!host || !allowedHosts.has(host))) {
+      forbid(res, `host ${host ?? '(none)'} is not allowed`);
+      return;
+    }
+
+    const origin = req.headers.origin?.toLowerCase();
+    if (origin && !allowedOrigins.has(origin)) {
+      forbid(res, `origin ${origin} is not allowed`);
+      return;
+    }
+
+    next();
+  };
+}
@@ -0,0 +1,45 @@
+// Backlink gap analysis built on the Semrush backlinks_matrix report
+import type { SemrushRow, SemrushValue } from './response-parser.js';
+
+// Semrush compares a target with at most four competitors in the backlink gap
+export const MAX_BACKLINK_GAP_COMPETITORS = 4;
+
+// Maximum targets in one backlinks_comparison request
+export const MAX_COMPARISON_TARGETS = 200;
+
+/**
+ * Turn backlinks_matrix rows into referring domains that link to competitors but not to
+ * the primary target, which must be the first of `targets`.
+ *
+ * Each row gets the backlinks it sends to every competitor, keyed by target, and an
+ * opportunity score: the domain's authority score weighted by the share of competitors
+ * it links to. Rows are sorted by opportunity, then by authority score.
+ */
+export function toBacklinkGapRows(rows: SemrushRow[], targets: string[], minCompetitors = 1): SemrushRow[] {
+  const competitors = targets.slice(1);
+
+  return rows
+    .map(row => {
+      const counts = Array.isArray(row.backlinks_num) ? row.backlinks_num.map(Number) : [];
+      const backlinks: Record<string, SemrushValue> = {};
+      competitors.forEach((competitor, index) => {
+        backlinks[competitor] = counts[index + 1] ?? 0;
+      });
+      const linked = competitors.filter(competitor => Number(backlinks[competitor]) > 0).length;
+      const authorityScore = typeof row.domain_ascore === 'number' ? row.domain_ascore : 0;
+
+      return {
+        row: {
+          domain: row.domain,
+          authority_score: authorityScore,
+          competitors_linked: linked,
+          opportunity: Math.round(authorityScore * linked / competitors.length),
+          backlinks,
+        },
+        linksPrimary: (counts[0] ?? 0) > 0,
+      };
+    })
+    .filter(({ row, linksPrimary }) => !linksPrimary && row.competitors_linked >= minCompetitors)
+    .map(({ row }) => row)
+    .sort((a, b) => b.opportunity - a.opportunity || b.authority_score - a.authority_score);
+}
@@ -0,0 +1,89 @@
+import { config } from './config.js';
+import { SemrushBudgetExceededError } from './semrush-errors.js';
+
+// Snapshot of a budget, as reported by the usage tool
+export interface BudgetStatus {
+  name: string;
+  limit: number | null; // null when unlimited
+  spent: number;
+  remaining: number | null;
+  resetsAt?: string;
+}
+
+// Start of the next UTC day
+const nextUtcMidnight = (now = Date.now()): number => {
+  const date = new Date(now);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1);
+};
+
+// API unit budget that refuses requests which could push spending over its limit
+export class UnitBudget {
+  readonly name: string;
+  private readonly limit: number; // 0 means unlimited
+  private readonly resetsDaily: boolean;
+  private spent = 0;
+  private resetAt: number;
+
+  constructor(name: string, limit: number, resetsDaily = false) {
+    this.name = name;
+    this.limit = limit;
+    this.resetsDaily = resetsDaily;
+    this.resetAt = resetsDaily ? nextUtcMidnight() : Infinity;
+  }
+
+  private rollOver(): void {
+    if (Date.now() >= this.resetAt) {
+      this.spent = 0;
+      this.resetAt = nextUtcMidnight();
+    }
+  }
+
+  // Throw when a request estimated at `units` would exceed the budget
+  check(units: number): void {
+    this.rollOver();
+    if (this.limit > 0 && this.spent + units > this.limit) {
+      throw new SemrushBudgetExceededError(this.name, units, this.limit - this.spent);
+    }
+  }
+
+  record(units: number): void {
+    this.rollOver();
+    this.spent += units;
+  }
+
+  status(): BudgetStatus {
+    this.rollOver();
+    return {
+      name: this.name,
+      limit: this.limit > 0 ? this.limit : null,
+      spent: this.spent,
+      remaining: this.limit > 0 ? Math.max(0, this.limit - this.spent) : null,
+      resetsAt: this.resetsDaily ? new Date(this.resetAt).toISOString() : undefined,
+    };
+  }
+}
+
+// Process and daily budgets of one Semrush account
+interface AccountBudgets {
+  process: UnitBudget;
+  daily: UnitBudget;
+}
+
+const accountBudgets = new Map<string, AccountBudgets>();
+
+// Budgets shared by every session using the same API key, looked up by the key's fingerprint
+export const getAccountBudgets = (keyId: string): AccountBudgets => {
+  let budgets = accountBudgets.get(keyId);
+  if (!budgets) {
+    budgets = {
+      process: new UnitBudget('process', config.UNITS_BUDGET_PROCESS),
+      daily: new UnitBudget('daily', config.UNITS_BUDGET_DAILY, true),
+    };
+    accountBudgets.set(keyId, budgets);
+  }
+  return budgets;
+};
+
+// Create the budget for a single MCP session
+export const createSessionBudget = (): UnitBudget =>
+  new UnitBudget('session', config.UNITS_BUDGET_SESSION);
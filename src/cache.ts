@@ -0,0 +1,206 @@
+import NodeCache from 'node-cache';
+import { createHash } from 'node:crypto';
+import { mkdir, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { config, logger } from './config.js';
+
+// A cached API response and the bookkeeping needed to inspect and expire it
+export interface CacheEntry<T = unknown> {
+  key: string;
+  reportType: string;
+  storedAt: number;  // Epoch milliseconds
+  expiresAt: number; // Epoch milliseconds
+  value: T;
+}
+
+// Storage backend for cached responses
+export interface CacheStore {
+  get<T>(key: string): Promise<CacheEntry<T> | undefined>;
+  set<T>(entry: CacheEntry<T>): Promise<void>;
+  delete(key: string): Promise<boolean>;
+  entries(): Promise<CacheEntry[]>;
+}
+
+// Cache TTLs in seconds per report type. Keyword metrics are refreshed monthly by Semrush,
+// domain reports daily and backlinks continuously; Site Audit snapshots never change.
+// A TTL of 0 disables caching.
+export const REPORT_CACHE_TTLS: Record<string, number> = {
+  phrase_kdi: 7 * 24 * 3600,
+  phrase_all: 7 * 24 * 3600,
+  phrase_this: 7 * 24 * 3600,
+  phrase_these: 7 * 24 * 3600,
+  phrase_related: 7 * 24 * 3600,
+  phrase_fullsearch: 7 * 24 * 3600,
+  phrase_questions: 7 * 24 * 3600,
+  phrase_organic: 24 * 3600,
+  phrase_adwords: 24 * 3600,
+  phrase_adwords_historical: 7 * 24 * 3600,
+  domain_ranks: 24 * 3600,
+  domain_organic: 24 * 3600,
+  domain_adwords: 24 * 3600,
+  domain_adwords_unique: 24 * 3600,
+  domain_adwords_historical: 7 * 24 * 3600,
+  domain_adwords_adwords: 24 * 3600,
+  domain_shopping: 24 * 3600,
+  domain_shopping_shopping: 24 * 3600,
+  domain_organic_organic: 24 * 3600,
+  domain_organic_unique: 24 * 3600,
+  domain_organic_subdomains: 24 * 3600,
+  url_organic: 24 * 3600,
+  url_adwords: 24 * 3600,
+  domain_domains: 24 * 3600,
+  domain_rank_history: 24 * 3600,
+  backlinks: 6 * 3600,
+  backlinks_refdomains: 6 * 3600,
+  backlinks_overview: 6 * 3600,
+  backlinks_anchors: 6 * 3600,
+  backlinks_tld: 6 * 3600,
+  backlinks_geo: 6 * 3600,
+  backlinks_pages: 6 * 3600,
+  backlinks_historical: 24 * 3600,
+  backlinks_categories: 7 * 24 * 3600,
+  backlinks_comparison: 6 * 3600,
+  backlinks_matrix: 6 * 3600,
+  trends_summary: 7 * 24 * 3600,
+  trends_summary_by_day: 7 * 24 * 3600,
+  trends_sources: 7 * 24 * 3600,
+  trends_destinations: 7 * 24 * 3600,
+  trends_toppages: 7 * 24 * 3600,
+  trends_geo: 7 * 24 * 3600,
+  trends_subdomains: 7 * 24 * 3600,
+  trends_audience_insights: 7 * 24 * 3600,
+  trends_accuracy: 7 * 24 * 3600,
+  projects: 3600,
+  tracking_overview_organic: 6 * 3600,
+  tracking_position_organic: 6 * 3600,
+  tracking_visibility_organic: 6 * 3600,
+  tracking_competitors_organic: 6 * 3600,
+  siteaudit_info: 0,
+  siteaudit_launch: 0,
+  siteaudit_snapshots: 3600,
+  siteaudit_snapshot: 30 * 24 * 3600,
+  siteaudit_meta: 7 * 24 * 3600,
+  api_units: 0,
+};
+
+// Parse CACHE_TTL_OVERRIDES, e.g. "backlinks=3600,phrase_kdi=86400"
+const parseTtlOverrides = (value: string): Record<string, number> =>
+  value.split(',').reduce((acc, pair) => {
+    const [type, seconds] = pair.split('=').map(part => part.trim());
+    const parsed = parseInt(seconds, 10);
+    if (type && !Number.isNaN(parsed)) acc[type] = parsed;
+    return acc;
+  }, {} as Record<string, number>);
+
+const ttlOverrides = parseTtlOverrides(config.CACHE_TTL_OVERRIDES);
+
+// Historical monthly snapshots never change once published
+const HISTORICAL_SNAPSHOT_TTL = 30 * 24 * 3600;
+
+// Resolve the cache TTL in seconds for a report type
+export const getCacheTtl = (reportType: string, historical = false): number =>
+  ttlOverrides[reportType]
+    ?? (historical ? HISTORICAL_SNAPSHOT_TTL : undefined)
+    ?? REPORT_CACHE_TTLS[reportType]
+    ?? config.API_CACHE_TTL_SECONDS;
+
+// In-memory store, lost on restart
+export class MemoryCacheStore implements CacheStore {
+  private readonly cache = new NodeCache({ useClones: false });
+
+  async get<T>(key: string): Promise<CacheEntry<T> | undefined> {
+    return this.cache.get<CacheEntry<T>>(key);
+  }
+
+  async set<T>(entry: CacheEntry<T>): Promise<void> {
+    this.cache.set(entry.key, entry, Math.max(1, Math.ceil((entry.expiresAt - Date.now()) / 1000)));
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.cache.del(key) > 0;
+  }
+
+  async entries(): Promise<CacheEntry[]> {
+    return this.cache.keys()
+      .map(key => this.cache.get<CacheEntry>(key))
+      .filter((entry): entry is CacheEntry => entry !== undefined);
+  }
+}
+
+// Persistent store keeping one JSON file per entry, so cached reports survive restarts
+export class FileCacheStore implements CacheStore {
+  private readonly directory: string;
+  private ready?: Promise<unknown>;
+
+  constructor(directory = config.CACHE_DIR) {
+    this.directory = directory;
+  }
+
+  private fileFor(key: string): string {
+    return join(this.directory, `${createHash('sha256').update(key).digest('hex')}.json`);
+  }
+
+  private async ensureDirectory(): Promise<void> {
+    this.ready ??= mkdir(this.directory, { recursive: true });
+    await this.ready;
+  }
+
+  private async readEntry<T>(file: string): Promise<CacheEntry<T> | undefined> {
+    try {
+      const entry = JSON.parse(await readFile(file, 'utf8')) as CacheEntry<T>;
+      if (entry.expiresAt <= Date.now()) {
+        await rm(file, { force: true });
+        return undefined;
+      }
+      return entry;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async get<T>(key: string): Promise<CacheEntry<T> | undefined> {
+    return this.readEntry<T>(this.fileFor(key));
+  }
+
+  async set<T>(entry: CacheEntry<T>): Promise<void> {
+    try {
+      await this.ensureDirectory();
+      await writeFile(this.fileFor(entry.key), JSON.stringify(entry), 'utf8');
+    } catch (error) {
+      // A cache write failure should never fail the request itself
+      logger.warn(`Failed to write cache entry: ${(error as Error).message}`);
+    }
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const file = this.fileFor(key);
+    const exists = (await this.readEntry(file)) !== undefined;
+    await rm(file, { force: true });
+    return exists;
+  }
+
+  async entries(): Promise<CacheEntry[]> {
+    let files: string[];
+    try {
+      files = await readdir(this.directory);
+    } catch {
+      return [];
+    }
+
+    const entries = await Promise.all(
+      files.filter(file => file.endsWith('.json')).map(file => this.readEntry(join(this.directory, file)))
+    );
+    return entries.filter((entry): entry is CacheEntry => entry !== undefined);
+  }
+}
+
+// Create the cache store selected by CACHE_BACKEND
+export function createCacheStore(): CacheStore {
+  if (config.CACHE_BACKEND === 'memory') {
+    return new MemoryCacheStore();
+  }
+  if (config.CACHE_BACKEND !== 'file') {
+    logger.warn(`Unknown CACHE_BACKEND "${config.CACHE_BACKEND}", using file cache`);
+  }
+  return new FileCacheStore();
+}
@@ -1,15 +1,40 @@
 import chalk from 'chalk';
 import { readFileSync } from 'fs';
+import { homedir } from 'os';
 import { dirname, resolve } from 'path';
 import { fileURLToPath } from 'url';
 
 // Define types for configuration variables
 interface Config {
   SEMRUSH_API_KEY?: string;
+  SEMRUSH_OAUTH_TOKEN?: string;
+  SEMRUSH_PROJECTS_API_URL: string;
   API_CACHE_TTL_SECONDS: number;
+  CACHE_BACKEND: string;
+  CACHE_DIR: string;
+  CACHE_TTL_OVERRIDES: string;
   API_RATE_LIMIT_PER_SECOND: number;
+  API_TIMEOUT_MS: number;
+  UNITS_BUDGET_SESSION: number;
+  UNITS_BUDGET_DAILY: number;
+  UNITS_BUDGET_PROCESS: number;
+  API_MAX_RETRIES: number;
+  API_RETRY_BASE_DELAY_MS: number;
+  API_RETRY_MAX_DELAY_MS: number;
+  CIRCUIT_BREAKER_THRESHOLD: number;
+  CIRCUIT_BREAKER_RESET_MS: number;
   NODE_ENV: string;
+  MCP_TRANSPORT: string;
+  HOST: string;
   PORT: number;
+  MCP_AUTH_TOKENS: string;
+  MCP_PUBLIC_URL?: string;
+  OAUTH_ISSUER?: string;
+  OAUTH_JWKS_FILE?: string;
+  OAUTH_AUDIENCE?: string;
+  OAUTH_REQUIRED_SCOPES: string;
+  ALLOWED_HOSTS?: string;
+  ALLOWED_ORIGINS: string;
   LOG_LEVEL: string;
 }
 
@@ -73,8 +98,11 @@ const loadEnv = (): void => {
   try {
     const envContent: string = readFileSync(ENV_FILE_PATH, 'utf8');
     const envVars: Record<string, string> = envContent.split('\n').reduce((acc, line) => {
-      const [key, value] = line.split('=');
-      if (key && value) acc[key.trim()] = value.trim();
+      // Split on the first "=" only: values such as CACHE_TTL_OVERRIDES or base64 tokens contain more
+      const separator = line.indexOf('=');
+      const key = line.slice(0, separator).trim();
+      const value = line.slice(separator + 1).trim();
+      if (separator > 0 && key && value) acc[key] = value;
       return acc;
     }, {} as Record<string, string>);
 
@@ -98,17 +126,41 @@ loadEnv();
 // Export configuration object using Config interface
 export const config: Config = {
   SEMRUSH_API_KEY: process.env.SEMRUSH_API_KEY,
+  SEMRUSH_OAUTH_TOKEN: process.env.SEMRUSH_OAUTH_TOKEN,
+  SEMRUSH_PROJECTS_API_URL: process.env.SEMRUSH_PROJECTS_API_URL || 'https://api.semrush.com/',
   API_CACHE_TTL_SECONDS: parseInt(process.env.API_CACHE_TTL_SECONDS || '300', 10),
+  CACHE_BACKEND: process.env.CACHE_BACKEND || 'file',
+  CACHE_DIR: process.env.CACHE_DIR || resolve(homedir(), '.cache', 'semrush-mcp'),
+  CACHE_TTL_OVERRIDES: process.env.CACHE_TTL_OVERRIDES || '',
   API_RATE_LIMIT_PER_SECOND: parseInt(process.env.API_RATE_LIMIT_PER_SECOND || '10', 10),
+  UNITS_BUDGET_SESSION: parseInt(process.env.UNITS_BUDGET_SESSION || '0', 10),
+  UNITS_BUDGET_DAILY: parseInt(process.env.UNITS_BUDGET_DAILY || '0', 10),
+  UNITS_BUDGET_PROCESS: parseInt(process.env.UNITS_BUDGET_PROCESS || '0', 10),
+  API_TIMEOUT_MS: parseInt(process.env.API_TIMEOUT_MS || '30000', 10),
+  API_MAX_RETRIES: parseInt(process.env.API_MAX_RETRIES || '3', 10),
+  API_RETRY_BASE_DELAY_MS: parseInt(process.env.API_RETRY_BASE_DELAY_MS || '500', 10),
+  API_RETRY_MAX_DELAY_MS: parseInt(process.env.API_RETRY_MAX_DELAY_MS || '10000', 10),
+  CIRCUIT_BREAKER_THRESHOLD: parseInt(process.env.CIRCUIT_BREAKER_THRESHOLD || '5', 10),
+  CIRCUIT_BREAKER_RESET_MS: parseInt(process.env.CIRCUIT_BREAKER_RESET_MS || '30000', 10),
   NODE_ENV: process.env.NODE_ENV || 'development',
+  MCP_TRANSPORT: process.env.MCP_TRANSPORT || 'stdio',
+  HOST: process.env.HOST || '127.0.0.1',
   PORT: parseInt(process.env.PORT || '3000', 10),
+  MCP_AUTH_TOKENS: process.env.MCP_AUTH_TOKENS || '',
+  MCP_PUBLIC_URL: process.env.MCP_PUBLIC_URL,
+  OAUTH_ISSUER: process.env.OAUTH_ISSUER,
+  OAUTH_JWKS_FILE: process.env.OAUTH_JWKS_FILE,
+  OAUTH_AUDIENCE: process.env.OAUTH_AUDIENCE,
+  OAUTH_REQUIRED_SCOPES: process.env.OAUTH_REQUIRED_SCOPES || '',
+  ALLOWED_HOSTS: process.env.ALLOWED_HOSTS,
+  ALLOWED_ORIGINS: process.env.ALLOWED_ORIGINS || '',
   LOG_LEVEL: process.env.LOG_LEVEL || 'info'
 };
 
 // Validate environment
 export function validateEnv(): void {
   if (!config.SEMRUSH_API_KEY) {
-    logger.warn('Missing SEMRUSH_API_KEY. API calls will fail without it.');
+    logger.warn('Missing SEMRUSH_API_KEY. API calls will fail unless HTTP clients send their own key.');
   }
 }
 
@@ -118,7 +170,12 @@ export function logConfigStatus(): void {
   logger.info('Configuration loaded:');
   logger.info(`  • Environment: ${config.NODE_ENV}`);
   logger.info(`  • API Key: ${config.SEMRUSH_API_KEY ? '[PROVIDED]' : '[MISSING]'}`);
-  logger.info(`  • Cache TTL: ${config.API_CACHE_TTL_SECONDS} seconds`);
+  logger.info(`  • Projects API: ${config.SEMRUSH_PROJECTS_API_URL} (${config.SEMRUSH_OAUTH_TOKEN ? 'OAuth token' : 'API key'})`);
+  logger.info(`  • Cache: ${config.CACHE_BACKEND}${config.CACHE_BACKEND === 'file' ? ` (${config.CACHE_DIR})` : ''}, default TTL ${config.API_CACHE_TTL_SECONDS} seconds`);
   logger.info(`  • Rate Limit: ${config.API_RATE_LIMIT_PER_SECOND} requests per second`);
+  logger.info(`  • Timeout: ${config.API_TIMEOUT_MS} ms, max ${config.API_MAX_RETRIES} retries`);
+  logger.info(`  • Unit budgets: session ${config.UNITS_BUDGET_SESSION || 'unlimited'}, daily ${config.UNITS_BUDGET_DAILY || 'unlimited'}, process ${config.UNITS_BUDGET_PROCESS || 'unlimited'}`);
+  logger.info(`  • Transport: ${config.MCP_TRANSPORT}`);
+  logger.info(`  • HTTP auth: ${[config.MCP_AUTH_TOKENS && 'static tokens', config.OAUTH_ISSUER && `OAuth (${config.OAUTH_ISSUER})`].filter(Boolean).join(', ') || 'none'}`);
   logger.info(`  • Log Level: ${config.LOG_LEVEL}`);
 } 
\ No newline at end of file
@@ -0,0 +1,60 @@
+// Helpers for Semrush historical snapshot dates
+import { InvalidArgumentError } from './semrush-errors.js';
+
+// Earliest monthly snapshot Semrush keeps (US database; other databases start later)
+export const EARLIEST_SNAPSHOT_MONTH = '2012-01';
+
+// Error for snapshot dates outside the range Semrush supports
+export class SnapshotDateError extends InvalidArgumentError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SnapshotDateError';
+  }
+}
+
+// Month as "YYYY-MM"
+const formatMonth = (year: number, month: number): string =>
+  `${year}-${String(month).padStart(2, '0')}`;
+
+// The most recent complete month, the latest snapshot Semrush has published
+export const latestSnapshotMonth = (now = new Date()): string => {
+  const month = now.getUTCMonth(); // 0-based, so this is already the previous month
+  return month === 0 ? formatMonth(now.getUTCFullYear() - 1, 12) : formatMonth(now.getUTCFullYear(), month);
+};
+
+/**
+ * Convert a snapshot month into Semrush display_date format (YYYYMM15).
+ * Accepts "YYYY-MM", "YYYYMM" or an existing "YYYYMM15" value, and checks it lies between
+ * EARLIEST_SNAPSHOT_MONTH and the latest complete month.
+ */
+export function toDisplayDate(input: string): string {
+  const match = /^(\d{4})-?(\d{2})(?:-?15)?$/.exec(input.trim());
+  if (!match) {
+    throw new SnapshotDateError(`Invalid snapshot date "${input}". Use the format YYYY-MM`);
+  }
+
+  const year = parseInt(match[1], 10);
+  const month = parseInt(match[2], 10);
+  if (month < 1 || month > 12) {
+    throw new SnapshotDateError(`Invalid month in snapshot date "${input}"`);
+  }
+
+  const value = formatMonth(year, month);
+  const latest = latestSnapshotMonth();
+  if (value < EARLIEST_SNAPSHOT_MONTH || value > latest) {
+    throw new SnapshotDateError(`Snapshot date ${value} is out of range. Semrush keeps monthly snapshots from ${EARLIEST_SNAPSHOT_MONTH} to ${latest}`);
+  }
+
+  return `${match[1]}${match[2]}15`;
+}
+
+// Convert a Semrush date such as "20240315" into "YYYY-MM"
+export const toSnapshotMonth = (value: string): string =>
+  /^\d{8}$/.test(value) ? `${value.slice(0, 4)}-${value.slice(4, 6)}` : value;
+
+// Number of months from one "YYYY-MM" month to another, counting both
+export const countMonths = (from: string, to: string): number => {
+  const [fromYear, fromMonth] = from.split('-').map(Number);
+  const [toYear, toMonth] = to.split('-').map(Number);
+  return (toYear - fromYear) * 12 + (toMonth - fromMonth) + 1;
+};
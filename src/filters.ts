@@ -0,0 +1,117 @@
+import { z } from 'zod';
+import { COLUMN_DEFINITIONS } from './response-parser.js';
+import { InvalidArgumentError } from './semrush-errors.js';
+
+// Filter operators and their Semrush display_filter codes
+const OPERATORS = {
+  eq: 'Eq',
+  gt: 'Gt',
+  lt: 'Lt',
+  contains: 'Co',
+  begins_with: 'Bw',
+  ends_with: 'Ew',
+} as const;
+
+type FilterOperator = keyof typeof OPERATORS;
+
+const NUMERIC_OPERATORS: FilterOperator[] = ['eq', 'gt', 'lt'];
+const TEXT_OPERATORS: FilterOperator[] = ['eq', 'contains', 'begins_with', 'ends_with'];
+
+// Columns each report accepts in display_filter and display_sort
+export const FILTERABLE_COLUMNS: Record<string, string[]> = {
+  domain_organic: ['Ph', 'Po', 'Pp', 'Pd', 'Nq', 'Cp', 'Ur', 'Tr', 'Tc', 'Co', 'Nr'],
+  domain_adwords: ['Ph', 'Po', 'Pp', 'Pd', 'Nq', 'Cp', 'Ur', 'Tr', 'Tc', 'Co', 'Nr'],
+  domain_organic_organic: ['Dn', 'Cr', 'Np', 'Or', 'Ot', 'Oc', 'Ad', 'At', 'Ac'],
+  domain_adwords_unique: ['Tt', 'Ds', 'Vu', 'Ur', 'Pc'],
+  domain_adwords_historical: ['Ph', 'Po', 'Cp', 'Nq', 'Tr', 'Ur'],
+  domain_adwords_adwords: ['Dn', 'Cr', 'Np', 'Ad', 'At', 'Ac', 'Or'],
+  domain_shopping: ['Ph', 'Po', 'Pp', 'Pd', 'Nq', 'Sn', 'Ur', 'Tt', 'Pr'],
+  domain_shopping_shopping: ['Dn', 'Cr', 'Np', 'Sh'],
+  domain_organic_unique: ['Ur', 'Pc', 'Tg', 'Tr'],
+  domain_domains: ['Ph', 'Nq', 'Cp', 'Co', 'Nr'],
+  url_organic: ['Ph', 'Po', 'Nq', 'Cp', 'Co', 'Tr', 'Tc', 'Nr'],
+  url_adwords: ['Ph', 'Po', 'Nq', 'Cp', 'Co', 'Tr', 'Tc', 'Nr'],
+  phrase_related: ['Ph', 'Nq', 'Cp', 'Co', 'Nr', 'Kd'],
+  phrase_fullsearch: ['Ph', 'Nq', 'Cp', 'Co', 'Nr', 'Kd'],
+  phrase_questions: ['Ph', 'Nq', 'Cp', 'Co', 'Nr', 'Kd'],
+};
+
+// Maximum number of conditions Semrush accepts in one display_filter
+const MAX_FILTERS = 25;
+
+export const FilterSchema = z.object({
+  field: z.string(),
+  operator: z.enum(Object.keys(OPERATORS) as [FilterOperator, ...FilterOperator[]]),
+  value: z.union([z.string(), z.number()]),
+  exclude: z.boolean().optional().default(false),
+});
+
+export const SortSchema = z.object({
+  field: z.string(),
+  order: z.enum(['asc', 'desc']).optional().default('desc'),
+});
+
+export type Filter = z.infer<typeof FilterSchema>;
+export type Sort = z.infer<typeof SortSchema>;
+
+// Error for filters or sorts a report does not support
+export class FilterValidationError extends InvalidArgumentError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FilterValidationError';
+  }
+}
+
+// Resolve a readable field name (or a raw column code) to the column code for a report
+const resolveColumnCode = (reportType: string, field: string): string => {
+  const supported = FILTERABLE_COLUMNS[reportType];
+  if (!supported) {
+    throw new FilterValidationError(`Report ${reportType} does not support filtering or sorting`);
+  }
+
+  const code = supported.find(code => code === field || COLUMN_DEFINITIONS[code]?.name === field);
+  if (!code) {
+    const fields = supported.map(code => COLUMN_DEFINITIONS[code]?.name ?? code);
+    throw new FilterValidationError(`Unsupported field "${field}" for ${reportType}. Supported fields: ${fields.join(', ')}`);
+  }
+  return code;
+};
+
+/**
+ * Compile structured filters into Semrush display_filter syntax, e.g. "+|Nq|Gt|1000|-|Ph|Co|free".
+ * Operators are checked against the column type: numeric columns take eq/gt/lt, text columns
+ * take eq/contains/begins_with/ends_with.
+ */
+export function compileFilters(reportType: string, filters: Filter[]): string | undefined {
+  if (filters.length === 0) {
+    return undefined;
+  }
+  if (filters.length > MAX_FILTERS) {
+    throw new FilterValidationError(`At most ${MAX_FILTERS} filters are supported`);
+  }
+
+  return filters.map(filter => {
+    const code = resolveColumnCode(reportType, filter.field);
+    const numeric = COLUMN_DEFINITIONS[code]?.type === 'number';
+    const allowed = numeric ? NUMERIC_OPERATORS : TEXT_OPERATORS;
+    if (!allowed.includes(filter.operator)) {
+      throw new FilterValidationError(`Operator "${filter.operator}" is not valid for ${numeric ? 'numeric' : 'text'} field "${filter.field}". Use one of: ${allowed.join(', ')}`);
+    }
+
+    const value = String(filter.value);
+    if (numeric && Number.isNaN(Number(value))) {
+      throw new FilterValidationError(`Field "${filter.field}" needs a numeric value, got "${value}"`);
+    }
+    if (value.includes('|')) {
+      throw new FilterValidationError('Filter values cannot contain "|"');
+    }
+
+    return [filter.exclude ? '-' : '+', code, OPERATORS[filter.operator], value].join('|');
+  }).join('|');
+}
+
+// Compile a sort into Semrush display_sort syntax, e.g. "tr_desc"
+export function compileSort(reportType: string, sort: Sort): string {
+  const code = resolveColumnCode(reportType, sort.field);
+  return `${code.toLowerCase()}_${sort.order}`;
+}
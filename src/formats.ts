@@ -0,0 +1,80 @@
+// Output formats and column selection for tool results
+import type { SemrushRow } from './response-parser.js';
+import { InvalidArgumentError } from './semrush-errors.js';
+
+export const OUTPUT_FORMATS = ['json', 'markdown', 'csv'] as const;
+export type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+// Error for columns that don't exist in a report
+export class ColumnSelectionError extends InvalidArgumentError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ColumnSelectionError';
+  }
+}
+
+// Output fields of a set of rows, in the order they first appear
+const columnsOf = (rows: SemrushRow[]): string[] => [...new Set(rows.flatMap(row => Object.keys(row)))];
+
+// Keep only the selected columns of each row, in the order given
+export function selectColumns(rows: SemrushRow[], columns: string[]): SemrushRow[] {
+  if (rows.length === 0) {
+    return rows;
+  }
+
+  const available = columnsOf(rows);
+  const unknown = columns.filter(column => !available.includes(column));
+  if (unknown.length > 0) {
+    throw new ColumnSelectionError(`Unknown column(s): ${unknown.join(', ')}. Available columns: ${available.join(', ')}`);
+  }
+  return rows.map(row => Object.fromEntries(columns.map(column => [column, row[column]])));
+}
+
+// Render a cell as text: lists joined with commas, nested objects as JSON, missing values empty
+const cellText = (value: unknown): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (Array.isArray(value)) {
+    return value.map(cellText).join(',');
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+// Markdown table with a header row; pipes and line breaks in cells are escaped
+const toMarkdown = (rows: SemrushRow[]): string => {
+  if (rows.length === 0) {
+    return '_No rows_';
+  }
+
+  const columns = columnsOf(rows);
+  const line = (cells: string[]) => `| ${cells.join(' | ')} |`;
+  const escape = (text: string) => text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+  return [
+    line(columns),
+    line(columns.map(() => '---')),
+    ...rows.map(row => line(columns.map(column => escape(cellText(row[column]))))),
+  ].join('\n');
+};
+
+// Comma-separated values (RFC 4180) with a header row
+const toCsv = (rows: SemrushRow[]): string => {
+  const columns = columnsOf(rows);
+  const quote = (text: string) => /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  return [
+    columns.map(quote).join(','),
+    ...rows.map(row => columns.map(column => quote(cellText(row[column]))).join(',')),
+  ].join('\r\n');
+};
+
+// Render rows in the requested output format
+export function formatRows(rows: SemrushRow[], format: OutputFormat): string {
+  switch (format) {
+    case 'markdown':
+      return toMarkdown(rows);
+    case 'csv':
+      return toCsv(rows);
+    default:
+      return JSON.stringify(rows);
+  }
+}
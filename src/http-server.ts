@@ -0,0 +1,263 @@
+import { config, logger } from './config.js';
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { createServer } from './server.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import express from 'express';
+import { randomUUID } from 'node:crypto';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { metadataHandler } from '@modelcontextprotocol/sdk/server/auth/handlers/metadata.js';
+import { getOAuthProtectedResourceMetadataUrl } from '@modelcontextprotocol/sdk/server/auth/router.js';
+import { AuthOptions, originGuard, parseList, requireBearerToken } from './auth.js';
+
+// Options for the HTTP server
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  streamable: boolean; // Serve Streamable HTTP on /mcp
+  sse: boolean;        // Serve legacy SSE on /sse and /messages
+}
+
+// Header a client can send its own Semrush API key in, when it connects
+const API_KEY_HEADER = 'x-semrush-api-key';
+
+// Semrush API key for a new session: the header, then the initialize request's
+// _meta.semrushApiKey, then the key configured for the process
+const sessionApiKey = (req: express.Request): string | undefined => {
+  const header = req.headers[API_KEY_HEADER];
+  const meta = req.body?.params?._meta?.semrushApiKey;
+  return (typeof header === 'string' && header.trim())
+    || (typeof meta === 'string' && meta.trim())
+    || config.SEMRUSH_API_KEY;
+};
+
+// Caller a session belongs to: the OAuth client for access tokens, the token itself for
+// static tokens (which share one client ID), undefined when auth is off
+const sessionOwner = (req: express.Request): string | undefined => {
+  if (!req.auth) {
+    return undefined;
+  }
+  return req.auth.clientId && req.auth.clientId !== 'static' ? `client:${req.auth.clientId}` : `token:${req.auth.token}`;
+};
+
+// Reply 403 to a request for a session another caller opened
+const forbidSession = (res: express.Response) => {
+  res.status(403).json({
+    jsonrpc: '2.0',
+    error: {
+      code: -32000,
+      message: 'Forbidden: session belongs to another caller',
+    },
+    id: null,
+  });
+};
+
+const MISSING_API_KEY = `Unauthorized: send a Semrush API key in the ${API_KEY_HEADER} header`;
+
+const LOOPBACK_HOSTS = ['127.0.0.1', 'localhost', '::1'];
+
+// Host headers accepted by default: the loopback names when bound to loopback, otherwise any
+const defaultAllowedHosts = (host: string, port: number): string[] =>
+  LOOPBACK_HOSTS.includes(host)
+    ? [`localhost:${port}`, `127.0.0.1:${port}`, `[::1]:${port}`]
+    : [];
+
+// Bearer auth settings from config, or undefined when no tokens or issuer are configured
+const authOptions = (resourceUrl: string): AuthOptions | undefined => {
+  const staticTokens = parseList(config.MCP_AUTH_TOKENS);
+  if (config.OAUTH_ISSUER && !config.OAUTH_JWKS_FILE) {
+    throw new Error('OAUTH_ISSUER requires OAUTH_JWKS_FILE to verify access tokens');
+  }
+  const jwt = config.OAUTH_ISSUER && config.OAUTH_JWKS_FILE
+    ? {
+        issuer: config.OAUTH_ISSUER,
+        jwksFile: config.OAUTH_JWKS_FILE,
+        audience: config.OAUTH_AUDIENCE || resourceUrl,
+        requiredScopes: parseList(config.OAUTH_REQUIRED_SCOPES),
+      }
+    : undefined;
+  if (staticTokens.length === 0 && !jwt) {
+    return undefined;
+  }
+
+  return {
+    staticTokens,
+    jwt,
+    resourceMetadataUrl: jwt && getOAuthProtectedResourceMetadataUrl(new URL(resourceUrl)),
+  };
+};
+
+// Start an Express server exposing the selected HTTP transports
+export async function startHttpServer(options: HttpServerOptions): Promise<void> {
+  const app = express();
+  const resourceUrl = config.MCP_PUBLIC_URL || `http://${options.host}:${options.port}/mcp`;
+  const auth = authOptions(resourceUrl);
+
+  // Protected resource metadata (RFC 9728), telling OAuth clients where to get a token
+  if (auth?.jwt) {
+    app.use('/.well-known/oauth-protected-resource', metadataHandler({
+      resource: resourceUrl,
+      authorization_servers: [auth.jwt.issuer],
+      bearer_methods_supported: ['header'],
+      scopes_supported: auth.jwt.requiredScopes.length > 0 ? auth.jwt.requiredScopes : undefined,
+      resource_name: 'Semrush MCP Server',
+    }));
+  }
+
+  // Block DNS rebinding: browsers on other sites can reach a local port, but not with an allowed Host or Origin
+  app.use(originGuard({
+    allowedHosts: config.ALLOWED_HOSTS !== undefined
+      ? parseList(config.ALLOWED_HOSTS)
+      : defaultAllowedHosts(options.host, options.port),
+    allowedOrigins: parseList(config.ALLOWED_ORIGINS),
+  }));
+
+  if (auth) {
+    app.use(['/mcp', '/sse', '/messages'], requireBearerToken(auth));
+  } else if (!LOOPBACK_HOSTS.includes(options.host)) {
+    logger.warn(`HTTP transports on ${options.host} accept any caller. Set MCP_AUTH_TOKENS or OAUTH_ISSUER to require a bearer token`);
+  }
+
+  app.use(express.json());
+
+  // Map to store transports by session ID
+  const transports = {
+    streamable: {} as Record<string, StreamableHTTPServerTransport>,
+    sse: {} as Record<string, SSEServerTransport>
+  };
+  // Caller that opened each session, since a session carries that caller's Semrush API key
+  const owners: Record<string, string | undefined> = {};
+
+  if (options.streamable) {
+    // Handle POST requests for client-to-server communication
+    app.post('/mcp', async (req, res) => {
+      // Check for existing session ID
+      const sessionId = req.headers['mcp-session-id'] as string | undefined;
+      let transport: StreamableHTTPServerTransport;
+
+      if (sessionId && transports.streamable[sessionId]) {
+        if (owners[sessionId] !== sessionOwner(req)) {
+          forbidSession(res);
+          return;
+        }
+        // Reuse existing transport
+        transport = transports.streamable[sessionId];
+      } else if (!sessionId && isInitializeRequest(req.body)) {
+        // New initialization request, bound to the caller's Semrush account
+        const apiKey = sessionApiKey(req);
+        const owner = sessionOwner(req);
+        if (!apiKey) {
+          res.status(401).json({
+            jsonrpc: '2.0',
+            error: {
+              code: -32001,
+              message: MISSING_API_KEY,
+            },
+            id: null,
+          });
+          return;
+        }
+
+        transport = new StreamableHTTPServerTransport({
+          sessionIdGenerator: () => randomUUID(),
+          onsessioninitialized: (sessionId) => {
+            // Store the transport by session ID
+            transports.streamable[sessionId] = transport;
+            owners[sessionId] = owner;
+          },
+        });
+
+        // Clean up transport when closed
+        transport.onclose = () => {
+          if (transport.sessionId) {
+            delete transports.streamable[transport.sessionId];
+            delete owners[transport.sessionId];
+          }
+        };
+        // Connect a dedicated MCP server to this session
+        const server = createServer(apiKey);
+        await server.connect(transport);
+      } else {
+        // Invalid request
+        res.status(400).json({
+          jsonrpc: '2.0',
+          error: {
+            code: -32000,
+            message: 'Bad Request: No valid session ID provided',
+          },
+          id: null,
+        });
+        return;
+      }
+
+      // Handle the request
+      await transport.handleRequest(req, res, req.body);
+    });
+
+    // Reusable handler for GET and DELETE requests
+    const handleSessionRequest = async (req: express.Request, res: express.Response) => {
+      const sessionId = req.headers['mcp-session-id'] as string | undefined;
+      if (!sessionId || !transports.streamable[sessionId]) {
+        res.status(400).send('Invalid or missing session ID');
+        return;
+      }
+      if (owners[sessionId] !== sessionOwner(req)) {
+        forbidSession(res);
+        return;
+      }
+
+      const transport = transports.streamable[sessionId];
+      await transport.handleRequest(req, res);
+    };
+
+    // Handle GET requests for server-to-client notifications via SSE
+    app.get('/mcp', handleSessionRequest);
+
+    // Handle DELETE requests for session termination
+    app.delete('/mcp', handleSessionRequest);
+  }
+
+  if (options.sse) {
+    // Legacy SSE endpoint for older clients
+    app.get('/sse', async (req, res) => {
+      // The session is created before initialize, so only the header can carry a key
+      const apiKey = sessionApiKey(req);
+      if (!apiKey) {
+        res.status(401).send(MISSING_API_KEY);
+        return;
+      }
+
+      // Create SSE transport for legacy clients
+      const transport = new SSEServerTransport('/messages', res);
+      transports.sse[transport.sessionId] = transport;
+      owners[transport.sessionId] = sessionOwner(req);
+
+      res.on("close", () => {
+        delete transports.sse[transport.sessionId];
+        delete owners[transport.sessionId];
+      });
+
+      const server = createServer(apiKey);
+      await server.connect(transport);
+    });
+
+    // Legacy message endpoint for older clients
+    app.post('/messages', async (req, res) => {
+      const sessionId = req.query.sessionId as string;
+      const transport = transports.sse[sessionId];
+      if (transport && owners[sessionId] !== sessionOwner(req)) {
+        forbidSession(res);
+      } else if (transport) {
+        await transport.handlePostMessage(req, res, req.body);
+      } else {
+        res.status(400).send('No transport found for sessionId');
+      }
+    });
+  }
+
+  // Wait until the port is bound so startup errors surface to the caller
+  await new Promise<void>((resolve, reject) => {
+    app.listen(options.port, options.host, (error?: Error) => error ? reject(error) : resolve());
+  });
+
+  logger.info(`HTTP transport listening on http://${options.host}:${options.port}`);
+}
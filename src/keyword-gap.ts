@@ -0,0 +1,71 @@
+// Keyword gap analysis built on the Semrush domain_domains report
+import type { SemrushRow, SemrushValue } from './response-parser.js';
+
+export const GAP_MODES = ['shared', 'missing', 'weak', 'strong', 'unique'] as const;
+export type GapMode = typeof GAP_MODES[number];
+
+export const GAP_TYPES = ['organic', 'paid'] as const;
+export type GapType = typeof GAP_TYPES[number];
+
+// Semrush allows comparing up to five domains at once
+export const MAX_GAP_DOMAINS = 5;
+
+// A domains parameter for domain_domains and the order its position columns come back in
+export interface GapQuery {
+  domains: string;
+  order: string[];
+}
+
+/**
+ * Build the domain_domains "domains" parameter for a gap mode.
+ *
+ * Each domain is prefixed with a sign relative to the first domain in the list:
+ * "*" starts the set, "+" keeps keywords the domain also ranks for, "-" drops them,
+ * "<" keeps keywords where the first domain ranks worse and ">" where it ranks better.
+ *
+ * - shared:  keywords every domain ranks for
+ * - missing: keywords every competitor ranks for but the target doesn't
+ * - weak:    keywords the target ranks for, but lower than every competitor
+ * - strong:  keywords the target ranks for, higher than every competitor
+ * - unique:  keywords only the target ranks for
+ */
+export function buildGapQuery(target: string, competitors: string[], mode: GapMode, type: GapType): GapQuery {
+  const code = type === 'paid' ? 'ad' : 'or';
+  const part = (sign: string, domain: string) => `${sign}|${code}|${domain}`;
+
+  if (mode === 'missing') {
+    const [first, ...rest] = competitors;
+    return {
+      domains: [part('*', first), ...rest.map(domain => part('+', domain)), part('-', target)].join('|'),
+      order: [...competitors, target],
+    };
+  }
+
+  const sign = { shared: '+', weak: '<', strong: '>', unique: '-' }[mode];
+  return {
+    domains: [part('*', target), ...competitors.map(domain => part(sign, domain))].join('|'),
+    order: [target, ...competitors],
+  };
+}
+
+// export_columns for a comparison of `count` domains: keyword, one position column per domain, then metrics
+export const gapExportColumns = (count: number): string =>
+  ['Ph', ...Array.from({ length: count }, (_, index) => `P${index}`), 'Nq', 'Cp', 'Co', 'Nr', 'Td'].join(',');
+
+// Replace the numbered position columns with positions keyed by domain
+export function toGapRows(rows: SemrushRow[], order: string[]): SemrushRow[] {
+  return rows.map(row => {
+    const positions: Record<string, SemrushValue> = {};
+    const rest: SemrushRow = {};
+    for (const [field, value] of Object.entries(row)) {
+      const match = /^position_(\d)$/.exec(field);
+      if (match && order[Number(match[1])] !== undefined) {
+        // Semrush reports 0 when a domain does not rank for the keyword
+        positions[order[Number(match[1])]] = value === 0 ? null : value;
+      } else {
+        rest[field] = value;
+      }
+    }
+    return { keyword: rest.keyword ?? null, positions, ...rest };
+  });
+}
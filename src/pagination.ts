@@ -0,0 +1,182 @@
+import { createHash } from 'node:crypto';
+import { logger } from './config.js';
+import { InvalidArgumentError } from './semrush-errors.js';
+import type { ListOptions, SemrushApiResponse } from './semrush-api.js';
+import type { SemrushRow } from './response-parser.js';
+
+// State carried by a continuation token
+interface CursorState {
+  tool: string;
+  query: string; // Hash of the arguments that select the rows, see queryHash
+  offset: number;
+  limit: number;
+}
+
+// Encode an opaque continuation token for the next page of a list report
+export const encodeCursor = (state: CursorState): string =>
+  Buffer.from(JSON.stringify(state)).toString('base64url');
+
+// Tool arguments that change how rows are paged or returned, but not which rows match
+const PAGING_ARGUMENTS = ['limit', 'offset', 'cursor', 'auto_page', 'max_rows', 'max_units', 'format', 'columns', 'timeout_ms'];
+
+// JSON with object keys sorted, so equal arguments serialize the same way
+const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value).filter(([, item]) => item !== undefined).sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+};
+
+// Hash of the query arguments of a tool call (target, filters, sort...), binding a cursor to its query
+export const queryHash = (args: Record<string, any>): string => {
+  const query = Object.fromEntries(Object.entries(args).filter(([key]) => !PAGING_ARGUMENTS.includes(key)));
+  return createHash('sha256').update(canonicalJson(query)).digest('base64url').slice(0, 16);
+};
+
+// Decode a continuation token, checking that it was issued for the same tool and query
+export const decodeCursor = (token: string, tool: string, query: string): CursorState => {
+  let state: CursorState;
+  try {
+    state = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+  } catch {
+    throw new InvalidArgumentError('Invalid cursor');
+  }
+
+  if (typeof state !== 'object' || state === null || !Number.isInteger(state.offset) || !Number.isInteger(state.limit)) {
+    throw new InvalidArgumentError('Invalid cursor');
+  }
+  if (state.tool !== tool) {
+    throw new InvalidArgumentError(`Cursor was not issued for ${tool}`);
+  }
+  if (state.query !== query) {
+    throw new InvalidArgumentError('Cursor was issued for different arguments; repeat the other arguments of the call that returned it');
+  }
+  return state;
+};
+
+export interface PaginateOptions {
+  tool: string;
+  args: Record<string, any>; // Arguments of the tool call, which cursors are bound to
+  filter?: string;
+  sort?: string;
+  limit?: number;
+  offset?: number;
+  cursor?: string;
+  autoPage?: boolean;
+  maxRows: number;
+  maxUnits?: number;
+  unitsPerLine: number;
+}
+
+// Default page size for auto-paging when no limit is given
+const DEFAULT_PAGE_SIZE = 100;
+
+// Join the raw CSV text of several pages, keeping only the first header row
+const joinRawPages = (pages: unknown[]): unknown => {
+  if (!pages.every(page => typeof page === 'string')) {
+    return pages;
+  }
+  return (pages as string[])
+    .map((page, index) => index === 0 ? page.trimEnd() : page.split(/\r?\n/).slice(1).join('\n').trimEnd())
+    .filter(Boolean)
+    .join('\n');
+};
+
+/**
+ * Fetch one page of a list report, or several when auto-paging.
+ *
+ * Auto-paging pulls pages of `limit` rows until `maxRows` rows are collected, a short
+ * page signals the end of the report, or the next page could exceed `maxUnits`.
+ * Requests still go through the client, so the rate limiter and cache apply to each page.
+ */
+export async function paginate(
+  fetchPage: (page: ListOptions) => Promise<SemrushApiResponse>,
+  options: PaginateOptions
+): Promise<SemrushApiResponse> {
+  const query = queryHash(options.args);
+  const start = options.cursor
+    ? decodeCursor(options.cursor, options.tool, query)
+    : { offset: options.offset ?? 0, limit: options.limit };
+
+  if (!options.autoPage) {
+    const response = await fetchPage({ limit: start.limit, offset: start.offset, filter: options.filter, sort: options.sort });
+    const rows = response.rows?.length ?? 0;
+    if (start.limit && rows === start.limit) {
+      response.meta.nextCursor = encodeCursor({ tool: options.tool, query, offset: start.offset + rows, limit: start.limit });
+    }
+    return response;
+  }
+
+  const pageSize = start.limit ?? DEFAULT_PAGE_SIZE;
+  const pages: SemrushApiResponse[] = [];
+  let offset = start.offset;
+  let collected = 0;
+  let unitsSpent = 0;
+  let exhausted = false;
+
+  while (collected < options.maxRows) {
+    const limit = Math.min(pageSize, options.maxRows - collected);
+    const pageUnits = limit * options.unitsPerLine;
+    if (options.maxUnits !== undefined && unitsSpent + pageUnits > options.maxUnits) {
+      logger.info(`Auto-paging stopped at offset ${offset}: next page could exceed the ${options.maxUnits} unit budget`);
+      break;
+    }
+
+    const response = await fetchPage({ limit, offset, filter: options.filter, sort: options.sort });
+    pages.push(response);
+    const rows = response.rows?.length ?? 0;
+    collected += rows;
+    offset += rows;
+    unitsSpent += response.meta.unitsSpent;
+    if (rows < limit) {
+      exhausted = true;
+      break;
+    }
+  }
+
+  const first = pages[0];
+  return {
+    data: joinRawPages(pages.map(page => page.data)),
+    status: first?.status ?? 200,
+    headers: first?.headers ?? {},
+    rows: pages.flatMap(page => page.rows ?? []),
+    meta: {
+      retries: pages.reduce((total, page) => total + page.meta.retries, 0),
+      cached: pages.length > 0 && pages.every(page => page.meta.cached),
+      unitsSpent,
+      pages: pages.length,
+      nextCursor: exhausted ? undefined : encodeCursor({ tool: options.tool, query, offset, limit: pageSize }),
+    },
+  };
+}
+
+/**
+ * Combine the responses of several requests for the same report into one, such as one
+ * request per month or per filter. The fields of tags[i] are prepended to every row of
+ * response i so rows can be told apart.
+ */
+export function combineResponses(responses: SemrushApiResponse[], tags: SemrushRow[]): SemrushApiResponse {
+  const [first] = responses;
+  const rows = responses.flatMap((response, index) =>
+    (response.rows ?? []).map(row => ({ ...tags[index], ...row }))
+  );
+  if (responses.length === 1) {
+    return { ...first, rows: first.rows && rows };
+  }
+  return {
+    data: joinRawPages(responses.map(response => response.data)),
+    status: first.status,
+    headers: first.headers,
+    rows,
+    meta: {
+      retries: responses.reduce((total, response) => total + response.meta.retries, 0),
+      cached: responses.every(response => response.meta.cached),
+      unitsSpent: responses.reduce((total, response) => total + response.meta.unitsSpent, 0),
+      pages: responses.length,
+    },
+  };
+}
@@ -0,0 +1,52 @@
+// Helpers for Position Tracking campaigns in Semrush projects
+import { normalizeTarget } from './targets.js';
+import { InvalidArgumentError } from './semrush-errors.js';
+
+// Position Tracking report types behind each campaign view
+export const TRACKING_REPORTS = {
+  overview: 'tracking_overview_organic',
+  rankings: 'tracking_position_organic',
+  visibility: 'tracking_visibility_organic',
+  competitors: 'tracking_competitors_organic',
+} as const;
+
+export type TrackingView = keyof typeof TRACKING_REPORTS;
+export type TrackingReportType = typeof TRACKING_REPORTS[TrackingView];
+
+// Campaign and date range a Position Tracking report is read for
+export interface TrackingQuery {
+  url: string; // Domain mask, e.g. "*.example.com/*"
+  dateBegin?: string; // YYYYMMDD
+  dateEnd?: string; // YYYYMMDD
+}
+
+// A keyword to add to a campaign
+export interface TrackedKeyword {
+  keyword: string;
+  tags?: string[];
+}
+
+// Keywords added or removed in one Projects API request
+export const MAX_KEYWORDS_PER_REQUEST = 100;
+
+// Error for invalid Position Tracking arguments
+export class PositionTrackingError extends InvalidArgumentError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PositionTrackingError';
+  }
+}
+
+// Turn a domain such as "https://www.example.com" into the mask "*.example.com/*"; masks pass through
+export const toDomainMask = (domain: string): string =>
+  domain.includes('*') ? domain.trim() : `*.${normalizeTarget(domain).target}/*`;
+
+// Convert a date such as "2024-03-01" into the YYYYMMDD format of the Projects API
+export function toTrackingDate(input: string): string {
+  const match = /^(\d{4})-?(\d{2})-?(\d{2})$/.exec(input.trim());
+  const date = match && new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+  if (!match || !date || date.getUTCDate() !== Number(match[3])) {
+    throw new PositionTrackingError(`Invalid date "${input}". Use the format YYYY-MM-DD`);
+  }
+  return `${match[1]}${match[2]}${match[3]}`;
+}
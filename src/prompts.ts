@@ -0,0 +1,163 @@
+// Built-in SEO workflow prompts, each a step-by-step plan of semrush_* tool calls
+
+interface PromptArgument {
+  name: string;
+  description: string;
+  required: boolean;
+}
+
+interface WorkflowPrompt {
+  name: string;
+  description: string;
+  arguments: PromptArgument[];
+  build: (args: Record<string, string>) => string;
+}
+
+// Error for unknown prompts or missing prompt arguments
+export class PromptError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PromptError';
+  }
+}
+
+const DATABASE_ARGUMENT: PromptArgument = {
+  name: 'database',
+  description: 'Regional database, e.g. "us" or "uk" (default "us")',
+  required: false,
+};
+
+// Number the steps of a workflow and add the closing instructions shared by every prompt
+const plan = (goal: string, steps: string[], report: string): string => [
+  goal,
+  '',
+  'Call the tools in this order, passing the results of earlier steps into later ones:',
+  ...steps.map((step, index) => `${index + 1}. ${step}`),
+  '',
+  report,
+  'If a tool returns an empty list, say so instead of guessing. Keep limits as given: every returned row costs API units.',
+].join('\n');
+
+const PROMPTS: WorkflowPrompt[] = [
+  {
+    name: 'competitive_audit',
+    description: 'Compare a domain with its main organic competitors: traffic, keyword gaps and backlink gaps',
+    arguments: [
+      { name: 'domain', description: 'Domain to audit, e.g. "example.com"', required: true },
+      DATABASE_ARGUMENT,
+    ],
+    build: ({ domain, database = 'us' }) => plan(
+      `Run a competitive SEO audit of ${domain} in the "${database}" database.`,
+      [
+        `semrush_domain_overview for ${domain} to get its rank, organic and paid traffic.`,
+        `semrush_competitors for ${domain} with limit 5 to find its organic competitors.`,
+        'semrush_domain_overview for each of the top 3 competitors.',
+        `semrush_keyword_gap for ${domain} against the top 3 competitors with mode "missing" and limit 50, sorted by search_volume.`,
+        `semrush_keyword_gap with mode "weak" and limit 30 for keywords where ${domain} trails every competitor.`,
+        `semrush_backlink_gap for ${domain} against the same competitors with limit 100.`,
+      ],
+      'Report a comparison table of the domains, the 10 most valuable missing and weak keywords, the 10 best backlink opportunities, and three prioritised recommendations.',
+    ),
+  },
+  {
+    name: 'content_brief',
+    description: 'Write a content brief for a target keyword from search demand, questions and the current top results',
+    arguments: [
+      { name: 'keyword', description: 'Target keyword, e.g. "crm for startups"', required: true },
+      DATABASE_ARGUMENT,
+    ],
+    build: ({ keyword, database = 'us' }) => plan(
+      `Prepare a content brief for the keyword "${keyword}" in the "${database}" database.`,
+      [
+        `semrush_keyword_overview_single_db for "${keyword}" to get search volume, CPC and intent.`,
+        `semrush_keyword_difficulty for "${keyword}".`,
+        `semrush_related_keywords for "${keyword}" with limit 30, to choose secondary keywords.`,
+        `semrush_phrase_questions for "${keyword}" with limit 20, to choose questions the page should answer.`,
+        `semrush_keyword_organic_results for "${keyword}" with limit 10 to see who ranks today.`,
+        'semrush_url_organic_keywords with limit 20 for the top 3 ranking URLs, to learn which other keywords they cover.',
+      ],
+      'Write the brief: search intent, difficulty, a suggested title and H1, an outline of H2/H3 headings, secondary keywords, questions to answer and what the top results do well.',
+    ),
+  },
+  {
+    name: 'backlink_review',
+    description: 'Review the backlink profile of a domain or URL: authority, growth, referring domains, anchors and risks',
+    arguments: [
+      { name: 'target', description: 'Domain or URL to review, e.g. "example.com"', required: true },
+    ],
+    build: ({ target }) => plan(
+      `Review the backlink profile of ${target}.`,
+      [
+        `semrush_backlinks_overview for ${target} for authority score and totals.`,
+        `semrush_backlinks_historical for ${target} with limit 12 to see the trend over the last year.`,
+        `semrush_backlinks_domains for ${target} with limit 50 for the strongest referring domains.`,
+        `semrush_backlinks_anchors for ${target} with limit 30 to check the anchor text mix.`,
+        `semrush_backlinks_tld and semrush_backlinks_geo for ${target} with limit 10 each.`,
+        `semrush_backlinks_categories for ${target}.`,
+      ],
+      'Report the overall health of the profile, how it is trending, the most valuable referring domains, and any risks such as over-optimised anchors or unusual TLD or country concentrations.',
+    ),
+  },
+  {
+    name: 'ppc_competitor_scan',
+    description: 'Scan the paid search competitors of a domain: who they are, what they bid on and which ads they run',
+    arguments: [
+      { name: 'domain', description: 'Advertiser domain, e.g. "example.com"', required: true },
+      DATABASE_ARGUMENT,
+    ],
+    build: ({ domain, database = 'us' }) => plan(
+      `Scan the paid search competition of ${domain} in the "${database}" database.`,
+      [
+        `semrush_domain_overview for ${domain} to get its paid keywords, traffic and cost.`,
+        `semrush_paid_competitors for ${domain} with limit 5.`,
+        `semrush_domain_paid_keywords for ${domain} and for each of the top 3 competitors with limit 20, sorted by traffic_percent.`,
+        'semrush_domain_ad_copies for each of the top 3 competitors with limit 10.',
+        `semrush_keyword_gap for ${domain} against the top 3 competitors with type "paid", mode "missing" and limit 30.`,
+      ],
+      'Report each competitor\'s estimated spend and main keywords, recurring messages and offers in their ad copies, and the paid keywords worth testing.',
+    ),
+  },
+  {
+    name: 'ranking_drop_triage',
+    description: 'Triage the keywords a domain recently lost or dropped on and find the pages affected',
+    arguments: [
+      { name: 'domain', description: 'Domain to triage, e.g. "example.com"', required: true },
+      DATABASE_ARGUMENT,
+    ],
+    build: ({ domain, database = 'us' }) => plan(
+      `Triage recent ranking drops of ${domain} in the "${database}" database.`,
+      [
+        `semrush_position_changes for ${domain} with changes ["lost", "fall"], limit 100 and filters keeping search_volume greater than 100.`,
+        `semrush_domain_history for ${domain} with limit 6 to see whether organic traffic moved with the drops.`,
+        `semrush_domain_top_pages for ${domain} with limit 20 to see which of the affected URLs matter most.`,
+      ],
+      'Group the drops by URL, rank the groups by traffic impact, and suggest a likely cause and a next step for each of the top 5.',
+    ),
+  },
+];
+
+// Prompt definitions for prompts/list
+export const PROMPT_LIST = PROMPTS.map(({ name, description, arguments: args }) => ({ name, description, arguments: args }));
+
+// Render a prompt with its arguments for prompts/get
+export function getPrompt(name: string, args: Record<string, string> = {}) {
+  const prompt = PROMPTS.find(prompt => prompt.name === name);
+  if (!prompt) {
+    throw new PromptError(`Unknown prompt: ${name}`);
+  }
+
+  const missing = prompt.arguments.filter(argument => argument.required && !args[argument.name]);
+  if (missing.length > 0) {
+    throw new PromptError(`Missing required arguments for ${name}: ${missing.map(argument => argument.name).join(', ')}`);
+  }
+
+  return {
+    description: prompt.description,
+    messages: [
+      {
+        role: 'user' as const,
+        content: { type: 'text' as const, text: prompt.build(args) },
+      },
+    ],
+  };
+}
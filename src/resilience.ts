@@ -0,0 +1,97 @@
+import { config, logger } from './config.js';
+
+// Circuit breaker states
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+// Circuit breaker that fails fast after repeated upstream failures
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+  private readonly failureThreshold: number;
+  private readonly resetTimeoutMs: number;
+
+  constructor(
+    failureThreshold = config.CIRCUIT_BREAKER_THRESHOLD,
+    resetTimeoutMs = config.CIRCUIT_BREAKER_RESET_MS
+  ) {
+    this.failureThreshold = failureThreshold;
+    this.resetTimeoutMs = resetTimeoutMs;
+  }
+
+  getState(): CircuitState {
+    if (this.state === 'open' && Date.now() - this.openedAt >= this.resetTimeoutMs) {
+      this.state = 'half-open';
+      this.trialInFlight = false;
+    }
+    return this.state;
+  }
+
+  // Whether a request may go out now; in half-open state a single trial request is allowed
+  canRequest(): boolean {
+    const state = this.getState();
+    if (state === 'closed') {
+      return true;
+    }
+    if (state === 'half-open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+    return false;
+  }
+
+  // Milliseconds until the breaker lets a trial request through
+  retryInMs(): number {
+    return Math.max(0, this.openedAt + this.resetTimeoutMs - Date.now());
+  }
+
+  recordSuccess(): void {
+    if (this.state !== 'closed') {
+      logger.info('Circuit breaker closed: Semrush API is responding again');
+    }
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(): void {
+    this.consecutiveFailures++;
+    this.trialInFlight = false;
+    if (this.state === 'half-open' || this.consecutiveFailures >= this.failureThreshold) {
+      if (this.state !== 'open') {
+        logger.warn(`Circuit breaker opened after ${this.consecutiveFailures} consecutive failures`);
+      }
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+}
+
+// Exponential backoff with full jitter: a random delay between 0 and base * 2^attempt, capped
+export const computeBackoffDelay = (
+  attempt: number,
+  baseDelayMs = config.API_RETRY_BASE_DELAY_MS,
+  maxDelayMs = config.API_RETRY_MAX_DELAY_MS
+): number => {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+};
+
+// Parse a Retry-After header given either as seconds or as an HTTP date
+export const parseRetryAfter = (header: unknown): number | undefined => {
+  if (typeof header !== 'string' && typeof header !== 'number') {
+    return undefined;
+  }
+
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(String(header));
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+export const sleep = (ms: number): Promise<void> =>
+  new Promise(resolve => setTimeout(resolve, ms));
@@ -0,0 +1,174 @@
+// Semrush reports exposed as MCP resources
+import { EventEmitter } from 'node:events';
+import type { SemrushApiResponse } from './semrush-api.js';
+
+// A report that can be read as a resource, addressed as semrush://{kind}/{value}/{report}
+interface ReportResource {
+  kind: string;
+  report: string;
+  name: string;
+  description: string;
+  tool: string; // Tool that fetches the report
+  param: string; // Tool argument the {value} segment is passed as
+  database: boolean; // Whether the report takes a ?database= query (default "us")
+  defaults?: Record<string, unknown>; // Fixed tool arguments, e.g. a row limit
+}
+
+const REPORT_RESOURCES: ReportResource[] = [
+  {
+    kind: 'domain',
+    report: 'overview',
+    name: 'Domain overview',
+    description: 'Rank, organic and paid traffic of a domain',
+    tool: 'semrush_domain_overview',
+    param: 'domain',
+    database: true,
+  },
+  {
+    kind: 'domain',
+    report: 'organic-keywords',
+    name: 'Domain organic keywords',
+    description: 'Top 100 organic keywords of a domain',
+    tool: 'semrush_domain_organic_keywords',
+    param: 'domain',
+    database: true,
+    defaults: { limit: 100 },
+  },
+  {
+    kind: 'keyword',
+    report: 'overview',
+    name: 'Keyword overview',
+    description: 'Search volume, CPC and competition of a keyword',
+    tool: 'semrush_keyword_overview',
+    param: 'keyword',
+    database: true,
+  },
+  {
+    kind: 'backlinks',
+    report: 'overview',
+    name: 'Backlinks overview',
+    description: 'Authority score and backlink totals of a domain or URL',
+    tool: 'semrush_backlinks_overview',
+    param: 'target',
+    database: false,
+  },
+];
+
+// Tool arguments that change how a result is delivered, not which report it is
+const DELIVERY_ARGUMENTS = new Set(['format', 'columns', 'raw', 'timeout_ms']);
+
+// Reports listed as resources, most recent first
+const MAX_RECENT_REPORTS = 50;
+
+export const RESOURCE_MIME_TYPE = 'application/json';
+
+// Error for resource URIs that don't match a template
+export class ResourceNotFoundError extends Error {
+  constructor(uri: string) {
+    super(`Unknown resource: ${uri}`);
+    this.name = 'ResourceNotFoundError';
+  }
+}
+
+// Resource templates in RFC 6570 form, for resources/templates/list
+export const RESOURCE_TEMPLATES = REPORT_RESOURCES.map(resource => ({
+  uriTemplate: `semrush://${resource.kind}/{${resource.param}}/${resource.report}${resource.database ? '{?database}' : ''}`,
+  name: resource.name,
+  description: resource.database ? `${resource.description}. database defaults to "us"` : resource.description,
+  mimeType: RESOURCE_MIME_TYPE,
+}));
+
+// Canonical URI of a report, with the database always spelled out
+const toUri = (resource: ReportResource, value: string, database?: string): string =>
+  `semrush://${resource.kind}/${encodeURIComponent(value)}/${resource.report}${resource.database ? `?database=${database ?? 'us'}` : ''}`;
+
+// Resolve a resource URI to the tool call that fetches it
+export function parseResourceUri(uri: string): { uri: string; name: string; tool: string; args: Record<string, any> } {
+  const match = /^semrush:\/\/([^/]+)\/([^/?]+)\/([^/?]+)(?:\?(.*))?$/.exec(uri);
+  const resource = match && REPORT_RESOURCES.find(resource => resource.kind === match[1] && resource.report === match[3]);
+  if (!match || !resource) {
+    throw new ResourceNotFoundError(uri);
+  }
+
+  let value: string;
+  try {
+    value = decodeURIComponent(match[2]);
+  } catch {
+    // Malformed percent-escape
+    throw new ResourceNotFoundError(uri);
+  }
+  const database = new URLSearchParams(match[4] ?? '').get('database') ?? undefined;
+  return {
+    uri: toUri(resource, value, database),
+    name: `${resource.name}: ${value}`,
+    tool: resource.tool,
+    args: { ...resource.defaults, [resource.param]: value, ...(resource.database && { database: database ?? 'us' }) },
+  };
+}
+
+// URI of the resource a tool call fetched, if its result is exactly a resource
+const resourceForTool = (toolName: string, args: Record<string, any>): { uri: string; name: string } | undefined => {
+  const resource = REPORT_RESOURCES.find(resource => resource.tool === toolName);
+  const value = args[resource?.param ?? ''];
+  if (!resource || typeof value !== 'string') {
+    return undefined;
+  }
+
+  const matchesResource = Object.entries(args).every(([key, arg]) =>
+    key === resource.param
+    || (key === 'database' && resource.database)
+    || DELIVERY_ARGUMENTS.has(key)
+    || resource.defaults?.[key] === arg
+  );
+  return matchesResource ? { uri: toUri(resource, value, args.database), name: `${resource.name}: ${value}` } : undefined;
+};
+
+/**
+ * Reports fetched recently, listed by resources/list, kept per account (API key fingerprint)
+ * so a session only lists reports fetched with its own key.
+ * Emits "listChanged" with the account when a report is added and "updated" with the account
+ * and URI whenever a report is fetched from Semrush rather than the cache, so sessions can
+ * notify their subscribers.
+ */
+class RecentReports extends EventEmitter {
+  private readonly reports = new Map<string, Map<string, { uri: string; name: string; fetchedAt: number }>>();
+
+  record(account: string, uri: string, name: string, fresh: boolean): void {
+    let reports = this.reports.get(account);
+    if (!reports) {
+      reports = new Map();
+      this.reports.set(account, reports);
+    }
+
+    const added = !reports.has(uri);
+    reports.delete(uri);
+    reports.set(uri, { uri, name, fetchedAt: Date.now() });
+    if (reports.size > MAX_RECENT_REPORTS) {
+      reports.delete(reports.keys().next().value!);
+    }
+
+    if (added) this.emit('listChanged', account);
+    if (fresh) this.emit('updated', account, uri);
+  }
+
+  list(account: string) {
+    return [...(this.reports.get(account)?.values() ?? [])].reverse().map(report => ({
+      uri: report.uri,
+      name: report.name,
+      description: `Fetched ${new Date(report.fetchedAt).toISOString()}`,
+      mimeType: RESOURCE_MIME_TYPE,
+    }));
+  }
+}
+
+export const recentReports = new RecentReports();
+// Every session listens for updates
+recentReports.setMaxListeners(0);
+
+// Record a tool result as a recent report of the account when it matches a resource
+export function recordToolReport(account: string, toolName: string, args: Record<string, any>, response: SemrushApiResponse): void {
+  const resource = resourceForTool(toolName, args);
+  if (resource) {
+    recentReports.record(account, resource.uri, resource.name, !response.meta.cached);
+  }
+}
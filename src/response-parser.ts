@@ -0,0 +1,238 @@
+// Parser for the semicolon-separated CSV responses returned by the Semrush Analytics API
+
+// Value types a column can be coerced to
+export type ColumnType = 'string' | 'number' | 'number_list' | 'string_list';
+
+export interface ColumnDefinition {
+  name: string;
+  type: ColumnType;
+  description: string;
+}
+
+// Parsed cell and row types; nested objects appear in rows combined from several columns
+export type SemrushValue = string | number | Array<string | number> | null | { [key: string]: SemrushValue };
+export type SemrushRow = Record<string, SemrushValue>;
+
+// Human-readable names and types for the export_columns codes used by the client
+export const COLUMN_DEFINITIONS: Record<string, ColumnDefinition> = {
+  // Domain reports
+  Db: { name: 'database', type: 'string', description: 'Regional database' },
+  Dn: { name: 'domain', type: 'string', description: 'Domain name' },
+  Rk: { name: 'rank', type: 'number', description: 'Semrush rank' },
+  Or: { name: 'organic_keywords', type: 'number', description: 'Keywords in the organic top 100' },
+  Ot: { name: 'organic_traffic', type: 'number', description: 'Estimated monthly organic traffic' },
+  Oc: { name: 'organic_cost', type: 'number', description: 'Estimated organic traffic cost (USD)' },
+  Ad: { name: 'adwords_keywords', type: 'number', description: 'Keywords in the paid top 8' },
+  At: { name: 'adwords_traffic', type: 'number', description: 'Estimated monthly paid traffic' },
+  Ac: { name: 'adwords_cost', type: 'number', description: 'Estimated paid traffic cost (USD)' },
+  Sh: { name: 'pla_keywords', type: 'number', description: 'Keywords triggering product listing ads' },
+  Sv: { name: 'pla_uniques', type: 'number', description: 'Unique product listing ads' },
+  Cr: { name: 'competition_level', type: 'number', description: 'Competition level between 0 and 1' },
+  Np: { name: 'common_keywords', type: 'number', description: 'Keywords shared with the analyzed domain' },
+  Pc: { name: 'keywords', type: 'number', description: 'Number of keywords the page or subdomain ranks for' },
+  Tg: { name: 'traffic', type: 'number', description: 'Estimated monthly traffic' },
+
+  // Keyword reports
+  Ph: { name: 'keyword', type: 'string', description: 'Keyword' },
+  Po: { name: 'position', type: 'number', description: 'Position in search results' },
+  Pp: { name: 'previous_position', type: 'number', description: 'Position in the previous period' },
+  Pd: { name: 'position_difference', type: 'number', description: 'Change in position' },
+  Pt: { name: 'position_type', type: 'string', description: 'Type of the search result' },
+  Nq: { name: 'search_volume', type: 'number', description: 'Average monthly searches' },
+  Cp: { name: 'cpc', type: 'number', description: 'Average cost per click (USD)' },
+  Co: { name: 'competition', type: 'number', description: 'Competitive density of advertisers between 0 and 1' },
+  Nr: { name: 'number_of_results', type: 'number', description: 'Number of search results' },
+  Td: { name: 'trends', type: 'number_list', description: 'Monthly search interest over the last 12 months' },
+  In: { name: 'intent', type: 'number_list', description: 'Search intent codes' },
+  Kd: { name: 'keyword_difficulty', type: 'number', description: 'Keyword difficulty index between 0 and 100' },
+  P0: { name: 'position_0', type: 'number', description: 'Position of the first compared domain' },
+  P1: { name: 'position_1', type: 'number', description: 'Position of the second compared domain' },
+  P2: { name: 'position_2', type: 'number', description: 'Position of the third compared domain' },
+  P3: { name: 'position_3', type: 'number', description: 'Position of the fourth compared domain' },
+  P4: { name: 'position_4', type: 'number', description: 'Position of the fifth compared domain' },
+  Ur: { name: 'url', type: 'string', description: 'Target URL' },
+  Tr: { name: 'traffic_percent', type: 'number', description: 'Share of the domain traffic driven by the keyword' },
+  Tc: { name: 'traffic_cost_percent', type: 'number', description: 'Share of the domain traffic cost driven by the keyword' },
+  Fk: { name: 'serp_features', type: 'number_list', description: 'SERP feature codes triggered by the keyword' },
+  Fp: { name: 'serp_feature_positions', type: 'number_list', description: 'SERP feature codes the domain ranks in' },
+  Fl: { name: 'serp_feature_links', type: 'string_list', description: 'Links shown in SERP features' },
+
+  // Advertising reports
+  Ab: { name: 'ad_block', type: 'string', description: 'Block of the search results the ad appears in' },
+  Vu: { name: 'visible_url', type: 'string', description: 'Visible URL of the ad' },
+  Dt: { name: 'date', type: 'string', description: 'Date of the record' },
+  Tt: { name: 'title', type: 'string', description: 'Ad title' },
+  Ds: { name: 'description', type: 'string', description: 'Ad description' },
+  Sn: { name: 'shop_name', type: 'string', description: 'Shop name shown in the product listing ad' },
+  Pr: { name: 'price', type: 'number', description: 'Product price shown in the product listing ad' },
+  Ts: { name: 'timestamp', type: 'number', description: 'Unix timestamp when the ad was last seen' },
+
+  // Backlinks reports (Semrush already uses readable column names here)
+  source_title: { name: 'source_title', type: 'string', description: 'Title of the linking page' },
+  source_url: { name: 'source_url', type: 'string', description: 'URL of the linking page' },
+  target_url: { name: 'target_url', type: 'string', description: 'URL the backlink points to' },
+  anchor: { name: 'anchor', type: 'string', description: 'Anchor text' },
+  page_score: { name: 'page_score', type: 'number', description: 'Authority score of the linking page' },
+  domain_score: { name: 'domain_score', type: 'number', description: 'Authority score of the linking domain' },
+  external_num: { name: 'external_num', type: 'number', description: 'External links on the linking page' },
+  internal_num: { name: 'internal_num', type: 'number', description: 'Internal links on the linking page' },
+  first_seen: { name: 'first_seen', type: 'number', description: 'Unix timestamp when the link was first seen' },
+  last_seen: { name: 'last_seen', type: 'number', description: 'Unix timestamp when the link was last seen' },
+  domain: { name: 'domain', type: 'string', description: 'Referring domain' },
+  backlinks_num: { name: 'backlinks_num', type: 'number', description: 'Number of backlinks' },
+  ip: { name: 'ip', type: 'string', description: 'IP address' },
+  country: { name: 'country', type: 'string', description: 'Country code' },
+  ascore: { name: 'ascore', type: 'number', description: 'Authority score between 0 and 100' },
+  total: { name: 'total', type: 'number', description: 'Total number of backlinks' },
+  domains_num: { name: 'domains_num', type: 'number', description: 'Number of referring domains' },
+  urls_num: { name: 'urls_num', type: 'number', description: 'Number of referring URLs' },
+  ips_num: { name: 'ips_num', type: 'number', description: 'Number of referring IP addresses' },
+  ipclassc_num: { name: 'ipclassc_num', type: 'number', description: 'Number of referring C-class subnets' },
+  follows_num: { name: 'follows_num', type: 'number', description: 'Number of follow backlinks' },
+  nofollows_num: { name: 'nofollows_num', type: 'number', description: 'Number of nofollow backlinks' },
+  sponsored_num: { name: 'sponsored_num', type: 'number', description: 'Number of sponsored backlinks' },
+  ugc_num: { name: 'ugc_num', type: 'number', description: 'Number of user-generated content backlinks' },
+  texts_num: { name: 'texts_num', type: 'number', description: 'Number of text backlinks' },
+  images_num: { name: 'images_num', type: 'number', description: 'Number of image backlinks' },
+  forms_num: { name: 'forms_num', type: 'number', description: 'Number of form backlinks' },
+  frames_num: { name: 'frames_num', type: 'number', description: 'Number of frame backlinks' },
+  zone: { name: 'zone', type: 'string', description: 'Top-level domain of the referring domains' },
+  response_code: { name: 'response_code', type: 'number', description: 'HTTP status code of the page' },
+  date: { name: 'date', type: 'number', description: 'Unix timestamp of the record' },
+  category_name: { name: 'category_name', type: 'string', description: 'Topic category of the referring domains' },
+  rating: { name: 'rating', type: 'number', description: 'Share of referring domains in the category' },
+  target: { name: 'target', type: 'string', description: 'Analyzed target' },
+  target_type: { name: 'target_type', type: 'string', description: 'Type of the analyzed target' },
+  domain_ascore: { name: 'domain_ascore', type: 'number', description: 'Authority score of the referring domain' },
+  matches_num: { name: 'matches_num', type: 'number', description: 'Number of compared targets the referring domain links to' },
+
+  // Traffic Analytics (.Trends) reports
+  visits: { name: 'visits', type: 'number', description: 'Estimated visits' },
+  users: { name: 'users', type: 'number', description: 'Estimated unique visitors' },
+  pages_per_visit: { name: 'pages_per_visit', type: 'number', description: 'Average pages viewed per visit' },
+  time_on_site: { name: 'time_on_site', type: 'number', description: 'Average visit duration in seconds' },
+  bounce_rate: { name: 'bounce_rate', type: 'number', description: 'Share of single-page visits between 0 and 1' },
+  from_target: { name: 'from_target', type: 'string', description: 'Domain the traffic comes from' },
+  to_target: { name: 'to_target', type: 'string', description: 'Domain visitors go to next' },
+  channel: { name: 'channel', type: 'string', description: 'Traffic channel (direct, referral, search, social, ...)' },
+  traffic: { name: 'traffic', type: 'number', description: 'Estimated visits' },
+  traffic_share: { name: 'traffic_share', type: 'number', description: 'Share of the domain traffic between 0 and 1' },
+  geo: { name: 'country', type: 'string', description: 'Country of the visitors' },
+  subdomain: { name: 'subdomain', type: 'string', description: 'Subdomain' },
+  page: { name: 'page', type: 'string', description: 'Page URL' },
+  overlap_score: { name: 'overlap_score', type: 'number', description: 'Share of the domain audience also visiting the other domains' },
+  similarity: { name: 'similarity', type: 'number', description: 'Audience similarity between 0 and 1' },
+  accuracy: { name: 'accuracy', type: 'number', description: 'Accuracy level of the traffic estimate (1 low to 3 high)' },
+};
+
+// Columns whose meaning differs in a specific report, by report type
+export const REPORT_COLUMN_OVERRIDES: Record<string, Record<string, ColumnDefinition>> = {
+  domain_organic_subdomains: {
+    Ds: { name: 'subdomain', type: 'string', description: 'Subdomain' },
+  },
+  trends_summary_by_day: {
+    date: { name: 'date', type: 'string', description: 'Day of the record (YYYY-MM-DD)' },
+  },
+  backlinks_matrix: {
+    backlinks_num: { name: 'backlinks_num', type: 'number_list', description: 'Backlinks to each compared target, in the order of the targets' },
+  },
+};
+
+// Split a single CSV line, honouring double-quoted fields
+const splitLine = (line: string, delimiter: string): string[] => {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"' && current === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  cells.push(current);
+  return cells;
+};
+
+// Convert a header label such as "Search Volume" into snake_case
+const toSnakeCase = (label: string): string =>
+  label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+
+const toNumber = (value: string): number | null => {
+  if (value.trim() === '') return null;
+  const parsed = Number(value);
+  return Number.isNaN(parsed) ? null : parsed;
+};
+
+// Coerce a raw cell into the type declared for its column
+export const coerceValue = (value: string, type: ColumnType): SemrushValue => {
+  switch (type) {
+    case 'number':
+      return toNumber(value);
+    case 'number_list':
+      return value.trim() === ''
+        ? []
+        : value.split(',').map(item => toNumber(item) ?? item.trim());
+    case 'string_list':
+      return value.trim() === '' ? [] : value.split(',').map(item => item.trim());
+    default:
+      return value === '' ? null : value;
+  }
+};
+
+// Resolve a column code to its definition, falling back to the header label
+export const resolveColumn = (code: string | undefined, header: string, reportType?: string): ColumnDefinition => {
+  const override = code && reportType ? REPORT_COLUMN_OVERRIDES[reportType]?.[code] : undefined;
+  if (override) {
+    return override;
+  }
+  if (code && COLUMN_DEFINITIONS[code]) {
+    return COLUMN_DEFINITIONS[code];
+  }
+  return { name: toSnakeCase(code || header), type: 'string', description: header };
+};
+
+/**
+ * Parse a Semrush CSV response into row objects.
+ *
+ * Semrush returns columns in the order they were requested, with human-readable
+ * labels in the header row. When the requested export_columns codes are given they
+ * are used to name and type each column, with overrides for the report type applied;
+ * otherwise the header labels are used.
+ */
+export function parseSemrushCsv(text: string, exportColumns?: string, reportType?: string): SemrushRow[] {
+  const lines = text.split(/\r?\n/).filter(line => line.trim() !== '');
+  if (lines.length === 0) {
+    return [];
+  }
+
+  const header = splitLine(lines[0], ';');
+  const codes = exportColumns ? exportColumns.split(',').map(code => code.trim()) : [];
+  const columns = header.map((label, index) =>
+    resolveColumn(codes.length === header.length ? codes[index] : undefined, label, reportType)
+  );
+
+  return lines.slice(1).map(line => {
+    const cells = splitLine(line, ';');
+    const row: SemrushRow = {};
+    columns.forEach((column, index) => {
+      row[column.name] = coerceValue(cells[index] ?? '', column.type);
+    });
+    return row;
+  });
+}
@@ -1,13 +1,24 @@
 import axios, { AxiosError, AxiosRequestConfig, AxiosResponse } from 'axios';
-import NodeCache from 'node-cache';
+import { createHash } from 'node:crypto';
 import { config, logger } from './config.js';
+import { parseSemrushCsv, SemrushRow } from './response-parser.js';
+import { parseSemrushErrorBody, SemrushApiError, SemrushCircuitOpenError, SemrushErrorCategory } from './semrush-errors.js';
+import { CacheEntry, CacheStore, createCacheStore, getCacheTtl } from './cache.js';
+import { BudgetStatus, getAccountBudgets, UnitBudget } from './budget.js';
+import { estimateUnits, getUnitsPerLine } from './units.js';
+import { CircuitBreaker, computeBackoffDelay, parseRetryAfter, sleep } from './resilience.js';
+import type { BacklinkTarget, TargetType } from './targets.js';
+import type { TrendsQuery } from './trends.js';
+import type { TrackedKeyword, TrackingQuery, TrackingReportType } from './position-tracking.js';
+
+export { SemrushApiError } from './semrush-errors.js';
 
 // Base API URL
 const SEMRUSH_API_BASE_URL = 'https://api.semrush.com/';
 const TRENDS_API_BASE_URL = 'https://api.semrush.com/analytics/ta/';
 
-// Create a cache with TTL from config
-const apiCache = new NodeCache({ stdTTL: config.API_CACHE_TTL_SECONDS });
+// Create the response cache selected in config
+const apiCache: CacheStore = createCacheStore();
 
 // Rate limiting implementation
 class RateLimiter {
@@ -50,42 +61,173 @@ class RateLimiter {
   }
 }
 
-const rateLimiter = new RateLimiter();
+// Rate limiters by API key fingerprint, as Semrush limits requests per account
+const rateLimiters = new Map<string, RateLimiter>();
+const getRateLimiter = (keyId: string): RateLimiter => {
+  let rateLimiter = rateLimiters.get(keyId);
+  if (!rateLimiter) {
+    rateLimiter = new RateLimiter();
+    rateLimiters.set(keyId, rateLimiter);
+  }
+  return rateLimiter;
+};
+const circuitBreaker = new CircuitBreaker();
 
 // API response types
 export interface SemrushApiResponse {
   data: any;
   status: number;
   headers: Record<string, string>;
+  rows?: SemrushRow[]; // Parsed rows for CSV reports requested with export_columns
+  meta: ResponseMeta;
+}
+
+// Details about how a response was obtained
+export interface ResponseMeta {
+  retries: number; // Retries spent on transient failures
+  cached: boolean; // Served from the response cache
+  cacheAgeSeconds?: number; // Age of the cached response
+  unitsSpent: number; // API units charged for this response (0 when cached)
+  pages?: number; // Pages fetched in auto-paging mode
+  nextCursor?: string; // Continuation token for the next page of a list report
+  target?: string; // Normalized target queried by a backlinks report
+  targetType?: TargetType; // target_type the target was queried with
+}
+
+// Position changes the domain_organic report can be limited to with display_positions
+export const POSITION_CHANGES = ['new', 'lost', 'rise', 'fall'] as const;
+export type PositionChange = typeof POSITION_CHANGES[number];
+
+// Per-request behaviour overrides
+export interface RequestOptions {
+  timeoutMs?: number;
+  maxRetries?: number;
+  bypassCache?: boolean; // Always fetch fresh data, then update the cache
+  sessionBudget?: UnitBudget; // Budget of the MCP session making the request
+}
+
+// Paging options for list reports
+export interface ListOptions {
+  limit?: number;  // display_limit: number of rows to return
+  offset?: number; // display_offset: number of rows to skip
+  filter?: string; // display_filter, e.g. "+|Nq|Gt|1000"
+  sort?: string;   // display_sort, e.g. "tr_desc"
 }
 
+// Apply list options to report parameters
+const withListOptions = (params: ApiQueryParams, options: ListOptions): ApiQueryParams => {
+  if (options.limit) {
+    params.display_limit = options.limit;
+  }
+  if (options.offset) {
+    params.display_offset = options.offset;
+  }
+  if (options.filter) {
+    params.display_filter = options.filter;
+  }
+  if (options.sort) {
+    params.display_sort = options.sort;
+  }
+  return params;
+};
+
+// Summary of a cache entry, as reported by the cache tools
+export interface CacheEntryInfo {
+  key: string;
+  reportType: string;
+  ageSeconds: number;
+  expiresInSeconds: number;
+  rows?: number;
+}
+
+// Report type used for per-report cache TTLs
+const getReportType = (url: string, params: ApiQueryParams): string => {
+  if (params.type) {
+    return String(params.type);
+  }
+  if (url.startsWith(TRENDS_API_BASE_URL)) {
+    return `trends_${url.slice(TRENDS_API_BASE_URL.length)}`;
+  }
+  if (url.startsWith(config.SEMRUSH_PROJECTS_API_URL)) {
+    // Site Audit endpoints are typed by the resource after /siteaudit/, e.g. siteaudit_snapshot
+    const siteAudit = /\/siteaudit\/([a-z_]+)/.exec(url);
+    return siteAudit ? `siteaudit_${siteAudit[1]}` : 'projects';
+  }
+  return url;
+};
+
 // Types for API parameters
 export interface ApiQueryParams {
-  [key: string]: string | number | boolean | undefined;
+  [key: string]: string | number | boolean | string[] | undefined;
 }
 
-// Error handling
-export class SemrushApiError extends Error {
-  public status: number;
-  public response?: any;
+// Classify transport-level failures that carry no Semrush error code
+const categorizeHttpError = (error: AxiosError): { category: SemrushErrorCategory; retryable: boolean } => {
+  const status = error.response?.status;
+  if (status === undefined) {
+    return { category: 'network', retryable: true };
+  }
+  if (status === 429) {
+    return { category: 'rate_limit', retryable: true };
+  }
+  if (status >= 500) {
+    return { category: 'server', retryable: true };
+  }
+  if (status === 401) {
+    return { category: 'auth', retryable: false };
+  }
+  if (status === 403) {
+    return { category: 'access', retryable: false };
+  }
+  return { category: 'invalid_request', retryable: false };
+};
+
+// Convert any request failure into a SemrushApiError
+const toApiError = (error: unknown): SemrushApiError => {
+  if (error instanceof SemrushApiError) {
+    return error;
+  }
   
-  constructor(message: string, status: number, response?: any) {
-    super(message);
-    this.name = 'SemrushApiError';
-    this.status = status;
-    this.response = response;
+  if (error instanceof AxiosError) {
+    // Error responses may carry the same in-body error codes
+    const bodyError = parseSemrushErrorBody(error.response?.data);
+    if (bodyError) {
+      return bodyError;
+    }
+    
+    const status = error.response?.status || 500;
+    const message = error.response?.data?.error?.message || error.message;
+    return new SemrushApiError(message, status, error.response?.data, {
+      ...categorizeHttpError(error),
+      retryAfterMs: parseRetryAfter(error.response?.headers?.['retry-after'])
+    });
   }
-}
+  
+  // Handle other types of errors
+  return new SemrushApiError((error as Error).message, 500);
+};
 
 // Main API client
 export class SemrushApiClient {
   private readonly apiKey: string;
+  readonly keyId: string; // Fingerprint of the API key, used to scope cache, rate limit and usage state
+  private readonly oauthToken?: string; // Projects API token, only for the account configured for the process
+  private readonly requestOptions: RequestOptions;
   
-  constructor(apiKey = config.SEMRUSH_API_KEY) {
+  // Without an API key the client uses the key configured for the process
+  constructor(apiKey = config.SEMRUSH_API_KEY, requestOptions: RequestOptions = {}) {
     if (!apiKey) {
-      throw new Error('Semrush API key is required');
+      throw new Error('Semrush API key is required: set SEMRUSH_API_KEY or send a key with the session');
     }
     this.apiKey = apiKey;
+    this.keyId = createHash('sha256').update(apiKey).digest('hex').slice(0, 12);
+    this.oauthToken = apiKey === config.SEMRUSH_API_KEY ? config.SEMRUSH_OAUTH_TOKEN : undefined;
+    this.requestOptions = requestOptions;
+  }
+  
+  // Return a client for the same account with different request options
+  withRequestOptions(options: RequestOptions): SemrushApiClient {
+    return new SemrushApiClient(this.apiKey, { ...this.requestOptions, ...options });
   }
   
   // Make API request with caching and rate limiting
@@ -94,87 +236,245 @@ export class SemrushApiClient {
     params: ApiQueryParams = {},
     options: AxiosRequestConfig = {}
   ): Promise<SemrushApiResponse> {
-    // Add API key to parameters
-    const requestParams: ApiQueryParams = {
-      ...params,
-      key: this.apiKey
-    };
+    // Add API key to parameters, unless the request authenticates with an OAuth bearer token
+    const requestParams: ApiQueryParams = options.headers?.Authorization
+      ? { ...params }
+      : { ...params, key: this.apiKey };
     
-    // Create cache key from URL and params
-    const cacheKey = `${url}:${JSON.stringify(requestParams)}`;
+    // Create cache key from URL and params, scoped to the account without exposing the key
+    const cacheKey = `${this.keyId}:${url}:${JSON.stringify(params)}`;
+    const reportType = getReportType(url, params);
+    // Only reads are cached; writes such as adding tracked keywords always go to Semrush
+    const cacheable = (options.method ?? 'get').toLowerCase() === 'get';
+    const ttl = cacheable ? getCacheTtl(reportType, params.display_date !== undefined) : 0;
     
     // Check cache first
-    const cachedResponse = apiCache.get<SemrushApiResponse>(cacheKey);
-    if (cachedResponse) {
-      logger.debug(`Cache hit for request: ${url}`);
-      return cachedResponse;
+    if (ttl > 0 && !this.requestOptions.bypassCache) {
+      const cached = await apiCache.get<SemrushApiResponse>(cacheKey);
+      if (cached) {
+        logger.debug(`Cache hit for request: ${url}`);
+        return {
+          ...cached.value,
+          meta: {
+            retries: 0,
+            cached: true,
+            unitsSpent: 0,
+            cacheAgeSeconds: Math.round((Date.now() - cached.storedAt) / 1000)
+          }
+        };
+      }
     }
     
-    // Wait for rate limit allowance
-    await rateLimiter.waitForRateLimit();
+    // Refuse requests that could exceed a unit budget before spending anything
+    const budgets = this.getBudgets();
+    const estimate = estimateUnits(reportType, {
+      limit: params.display_limit !== undefined ? Number(params.display_limit) : undefined,
+      batchSize: typeof params.phrase === 'string'
+        ? params.phrase.split(';').length
+        : Array.isArray(params.targets) ? params.targets.length : undefined
+    });
+    budgets.forEach(budget => budget.check(estimate));
     
-    try {
-      logger.debug(`Making request to: ${url}`);
-      
-      const response: AxiosResponse = await axios({
-        method: 'get',
-        url,
-        params: requestParams,
-        ...options
+    const apiResponse = await this.requestWithRetry(url, requestParams, options);
+    
+    // Parse CSV reports into typed rows
+    if (typeof apiResponse.data === 'string' && params.export_columns) {
+      apiResponse.rows = parseSemrushCsv(apiResponse.data, String(params.export_columns), reportType);
+    }
+    
+    // Semrush charges per returned line
+    apiResponse.meta.unitsSpent = (apiResponse.rows?.length ?? 0) * getUnitsPerLine(reportType);
+    budgets.forEach(budget => budget.record(apiResponse.meta.unitsSpent));
+    
+    // Cache successful response
+    if (ttl > 0) {
+      const now = Date.now();
+      await apiCache.set({
+        key: cacheKey,
+        reportType,
+        storedAt: now,
+        expiresAt: now + ttl * 1000,
+        value: apiResponse
       });
+    }
+    
+    return apiResponse;
+  }
+  
+  // Budgets that apply to requests from this client
+  private getBudgets(): UnitBudget[] {
+    const { process, daily } = getAccountBudgets(this.keyId);
+    const budgets = [process, daily];
+    if (this.requestOptions.sessionBudget) {
+      budgets.push(this.requestOptions.sessionBudget);
+    }
+    return budgets;
+  }
+  
+  // Spending against each budget that applies to this client
+  getUsage(): BudgetStatus[] {
+    return this.getBudgets().map(budget => budget.status());
+  }
+  
+  // Cache entries belonging to this account, optionally filtered by report type
+  private async ownCacheEntries(reportType?: string): Promise<CacheEntry[]> {
+    const entries = await apiCache.entries();
+    return entries.filter(entry =>
+      entry.key.startsWith(`${this.keyId}:`) && (!reportType || entry.reportType === reportType)
+    );
+  }
+  
+  // List cached responses for this account
+  async inspectCache(reportType?: string): Promise<CacheEntryInfo[]> {
+    const now = Date.now();
+    const entries = await this.ownCacheEntries(reportType);
+    return entries
+      .sort((a, b) => b.storedAt - a.storedAt)
+      .map(entry => ({
+        key: entry.key.slice(this.keyId.length + 1),
+        reportType: entry.reportType,
+        ageSeconds: Math.round((now - entry.storedAt) / 1000),
+        expiresInSeconds: Math.round((entry.expiresAt - now) / 1000),
+        rows: (entry.value as SemrushApiResponse).rows?.length
+      }));
+  }
+  
+  // Remove cached responses by key (as listed by inspectCache), by report type, or all of them
+  async invalidateCache(filter: { key?: string; reportType?: string } = {}): Promise<number> {
+    if (filter.key) {
+      return (await apiCache.delete(`${this.keyId}:${filter.key}`)) ? 1 : 0;
+    }
+    
+    const entries = await this.ownCacheEntries(filter.reportType);
+    const results = await Promise.all(entries.map(entry => apiCache.delete(entry.key)));
+    return results.filter(Boolean).length;
+  }
+  
+  // Send a request, retrying transient failures with jittered exponential backoff
+  private async requestWithRetry(
+    url: string,
+    requestParams: ApiQueryParams,
+    options: AxiosRequestConfig
+  ): Promise<SemrushApiResponse> {
+    // Writes are never retried: a launch or keyword change that timed out may still have gone through
+    const idempotent = (options.method ?? 'get').toLowerCase() === 'get';
+    const maxRetries = idempotent ? this.requestOptions.maxRetries ?? config.API_MAX_RETRIES : 0;
+    const timeout = this.requestOptions.timeoutMs ?? config.API_TIMEOUT_MS;
+    
+    for (let attempt = 0; ; attempt++) {
+      // Fail fast while Semrush is known to be down
+      if (!circuitBreaker.canRequest()) {
+        const error = new SemrushCircuitOpenError(circuitBreaker.retryInMs());
+        error.retries = attempt;
+        throw error;
+      }
       
-      const apiResponse: SemrushApiResponse = {
-        data: response.data,
-        status: response.status,
-        headers: response.headers as Record<string, string>
-      };
-      
-      // Cache successful response
-      apiCache.set(cacheKey, apiResponse);
+      // Wait for rate limit allowance
+      await getRateLimiter(this.keyId).waitForRateLimit();
       
-      return apiResponse;
-    } catch (error) {
-      if (error instanceof AxiosError) {
-        const status = error.response?.status || 500;
-        const message = error.response?.data?.error?.message || error.message;
-        logger.error(`API request failed: ${message}`);
-        throw new SemrushApiError(message, status, error.response?.data);
+      try {
+        logger.debug(`Making request to: ${url}`);
+        
+        const response: AxiosResponse = await axios({
+          method: 'get',
+          url,
+          params: requestParams,
+          timeout,
+          ...options
+        });
+        circuitBreaker.recordSuccess();
+        
+        // Semrush reports most failures as an HTTP 200 with an error body
+        const bodyError = parseSemrushErrorBody(response.data);
+        if (bodyError) {
+          throw bodyError;
+        }
+        
+        return {
+          data: response.data,
+          status: response.status,
+          headers: response.headers as Record<string, string>,
+          meta: { retries: attempt, cached: false, unitsSpent: 0 }
+        };
+      } catch (error) {
+        const apiError = toApiError(error);
+        if (apiError.category === 'network' || apiError.category === 'server') {
+          circuitBreaker.recordFailure();
+        } else {
+          // Any other answer means Semrush is up; this also ends a half-open trial
+          circuitBreaker.recordSuccess();
+        }
+        
+        // Give up rather than wait longer than the retry delay cap for a Retry-After
+        const waitTooLong = (apiError.retryAfterMs ?? 0) > config.API_RETRY_MAX_DELAY_MS;
+        if (!apiError.retryable || attempt >= maxRetries || waitTooLong) {
+          apiError.retries = attempt;
+          logger.error(`API request failed: ${apiError.message}${apiError.code !== undefined ? ` (code ${apiError.code})` : ''}`);
+          throw apiError;
+        }
+        
+        const delay = apiError.retryAfterMs ?? computeBackoffDelay(attempt);
+        logger.warn(`API request failed: ${apiError.message}; retry ${attempt + 1}/${maxRetries} in ${delay}ms`);
+        await sleep(delay);
       }
-      
-      // Handle other types of errors
-      logger.error(`Unknown error: ${(error as Error).message}`);
-      throw new SemrushApiError((error as Error).message, 500);
     }
   }
   
   // Analytics API methods
   
   // Domain Analytics
-  async getDomainOverview(domain: string, database: string = 'us'): Promise<SemrushApiResponse> {
+  // Pass displayDate (YYYYMM15) to read a historical monthly snapshot
+  async getDomainOverview(domain: string, database: string = 'us', displayDate?: string): Promise<SemrushApiResponse> {
     return this.makeRequest(SEMRUSH_API_BASE_URL, {
       type: 'domain_ranks',
       domain,
       database,
+      display_date: displayDate,
       export_columns: 'Db,Dn,Rk,Or,Ot,Oc,Ad,At,Ac,Sh,Sv'
     });
   }
   
-  async getDomainOrganicKeywords(domain: string, database: string = 'us', limit?: number): Promise<SemrushApiResponse> {
+  async getDomainOrganicKeywords(domain: string, database: string = 'us', options: ListOptions = {}, displayDate?: string): Promise<SemrushApiResponse> {
     const params: ApiQueryParams = {
       type: 'domain_organic',
       domain,
       database,
+      display_date: displayDate,
       export_columns: 'Ph,Po,Pp,Pd,Nq,Cp,Ur,Tr,Tc,Co,Nr,Td'
     };
     
-    if (limit) {
-      params.display_limit = limit;
-    }
+    return this.makeRequest(SEMRUSH_API_BASE_URL, withListOptions(params, options));
+  }
+  
+  // Position Changes - keywords a domain newly ranks for, lost, or moved up or down on since the
+  // previous month, or since the previous day when daily is set
+  async getDomainPositionChanges(domain: string, database: string = 'us', change: PositionChange, daily = false, options: ListOptions = {}): Promise<SemrushApiResponse> {
+    const params: ApiQueryParams = {
+      type: 'domain_organic',
+      domain,
+      database,
+      display_positions: change,
+      display_daily: daily ? 1 : undefined,
+      export_columns: 'Ph,Po,Pp,Pd,Nq,Cp,Ur,Tr,Tc,Co,Td'
+    };
     
-    return this.makeRequest(SEMRUSH_API_BASE_URL, params);
+    return this.makeRequest(SEMRUSH_API_BASE_URL, withListOptions(params, options));
   }
   
-  async getDomainPaidKeywords(domain: string, database: string = 'us', limit?: number): Promise<SemrushApiResponse> {
+  // Domain Rank History - monthly rank, traffic and keyword counts
+  async getDomainRankHistory(domain: string, database: string = 'us', options: ListOptions = {}): Promise<SemrushApiResponse> {
+    const params: ApiQueryParams = {
+      type: 'domain_rank_history',
+      domain,
+      database,
+      display_sort: 'dt_desc',
+      export_columns: 'Dt,Rk,Or,Ot,Oc,Ad,At,Ac'
+    };
+    
+    return this.makeRequest(SEMRUSH_API_BASE_URL, withListOptions(params, options));
+  }
+  
+  async getDomainPaidKeywords(domain: string, database: string = 'us', options: ListOptions = {}): Promise<SemrushApiResponse> {
     const params: ApiQueryParams = {
       type: 'domain_adwords',
       domain,
@@ -182,14 +482,92 @@ export class SemrushApiClient {
       export_columns: 'Ph,Po,Pp,Pd,Ab,Nq,Cp,Tr,Tc,Co,Nr,Td'
     };
     
-    if (limit) {
-      params.display_limit = limit;
-    }
+    return this.makeRequest(SEMRUSH_API_BASE_URL, withListOptions(params, options));
+  }
+  
+  // Organic Pages - a domain's pages ranked by the organic traffic they drive
+  async getDomainOrganicPages(domain: string, database: string = 'us', options: ListOptions = {}): Promise<SemrushApiResponse> {
+    const params: ApiQueryParams = {
+      type: 'domain_organic_unique',
+      domain,
+      database,
+      export_columns: 'Ur,Pc,Tg,Tr'
+    };
+    
+    return this.makeRequest(SEMRUSH_API_BASE_URL, withListOptions(params, options));
+  }
+  
+  // Organic Subdomains - a domain's subdomains ranked by organic traffic
+  async getDomainOrganicSubdomains(domain: string, database: string = 'us', options: ListOptions = {}): Promise<SemrushApiResponse> {
+    const params: ApiQueryParams = {
+      type: 'domain_organic_subdomains',
+      domain,
+      database,
+      export_columns: 'Ds,Pc,Tg,Tr'
+    };
+    
+    return this.makeRequest(SEMRUSH_API_BASE_URL, withListOptions(params, options));
+  }
+  
+  // Ad Copies - unique ads a domain runs, with the number of keywords triggering each
+  async getDomainAdCopies(domain: string, database: string = 'us', options: ListOptions = {}): Promise<SemrushApiResponse> {
+    const params: ApiQueryParams = {
+      type: 'domain_adwords_unique',
+      domain,
+      database,
+      export_columns: 'Tt,Ds,Vu,Ur,Pc'
+    };
+    
+    return this.makeRequest(SEMRUSH_API_BASE_URL, withListOptions(params, options));
+  }
+  
+  // Ads History - keywords a domain bid on over the last 12 months, with the ad shown each month
+  async getDomainAdsHistory(domain: string, database: string = 'us', options: ListOptions = {}): Promise<SemrushApiResponse> {
+    const params: ApiQueryParams = {
+      type: 'domain_adwords_historical',
+      domain,
+      database,
+      export_columns: 'Ph,Dt,Po,Cp,Nq,Tr,Ur,Tt,Ds'
+    };
+    
+    return this.makeRequest(SEMRUSH_API_BASE_URL, withListOptions(params, options));
+  }
+  
+  async getCompetitorsInPaid(domain: string, database: string = 'us', options: ListOptions = {}): Promise<SemrushApiResponse> {
+    const params: ApiQueryParams = {
+      type: 'domain_adwords_adwords',
+      domain,
+      database,
+      export_columns: 'Dn,Cr,Np,Ad,At,Ac,Or'
+    };
+    
+    return this.makeRequest(SEMRUSH_API_BASE_URL, withListOptions(params, options));
+  }
+  
+  // PLA Keywords - keywords that trigger a domain's Google Shopping ads
+  async getDomainPlaKeywords(domain: string, database: string = 'us', options: ListOptions = {}): Promise<SemrushApiResponse> {
+    const params: ApiQueryParams = {
+      type: 'domain_shopping',
+      domain,
+      database,
+      export_columns: 'Ph,Po,Pp,Pd,Nq,Sn,Ur,Tt,Pr,Ts'
+    };
+    
+    return this.makeRequest(SEMRUSH_API_BASE_URL, withListOptions(params, options));
+  }
+  
+  async getCompetitorsInPla(domain: string, database: string = 'us', options: ListOptions = {}): Promise<SemrushApiResponse> {
+    const params: ApiQueryParams = {
+      type: 'domain_shopping_shopping',
+      domain,
+      database,
+      export_columns: 'Dn,Cr,Np,Sh'
+    };
     
-    return this.makeRequest(SEMRUSH_API_BASE_URL, params);
+    return this.makeRequest(SEMRUSH_API_BASE_URL, withListOptions(params, options));
   }
   
-  async getCompetitorsInOrganic(domain: string, database: string = 'us', limit?: number): Promise<SemrushApiResponse> {
+  async getCompetitorsInOrganic(domain: string, database: string = 'us', options: ListOptions = {}): Promise<SemrushApiResponse> {
     const params: ApiQueryParams = {
       type: 'domain_organic_organic',
       domain,
@@ -197,40 +575,159 @@ export class SemrushApiClient {
       export_columns: 'Dn,Cr,Np,Or,Ot,Oc,Ad,At,Ac'
     };
     
-    if (limit) {
-      params.display_limit = limit;
-    }
+    return this.makeRequest(SEMRUSH_API_BASE_URL, withListOptions(params, options));
+  }
+  
+  // Domain vs. Domains - keywords compared across up to five domains.
+  // The domains parameter and export columns come from buildGapQuery and gapExportColumns.
+  async getDomainComparison(domains: string, exportColumns: string, database: string = 'us', options: ListOptions = {}): Promise<SemrushApiResponse> {
+    const params: ApiQueryParams = {
+      type: 'domain_domains',
+      domains,
+      database,
+      export_columns: exportColumns
+    };
     
-    return this.makeRequest(SEMRUSH_API_BASE_URL, params);
+    return this.makeRequest(SEMRUSH_API_BASE_URL, withListOptions(params, options));
+  }
+  
+  // URL Reports - keywords a single page ranks for in organic and paid results
+  async getUrlOrganicKeywords(url: string, database: string = 'us', options: ListOptions = {}): Promise<SemrushApiResponse> {
+    const params: ApiQueryParams = {
+      type: 'url_organic',
+      url,
+      database,
+      export_columns: 'Ph,Po,Nq,Cp,Co,Tr,Tc,Nr,Td'
+    };
+    
+    return this.makeRequest(SEMRUSH_API_BASE_URL, withListOptions(params, options));
+  }
+  
+  async getUrlPaidKeywords(url: string, database: string = 'us', options: ListOptions = {}): Promise<SemrushApiResponse> {
+    const params: ApiQueryParams = {
+      type: 'url_adwords',
+      url,
+      database,
+      export_columns: 'Ph,Po,Nq,Cp,Co,Tr,Tc,Nr,Td,Tt,Ds,Vu'
+    };
+    
+    return this.makeRequest(SEMRUSH_API_BASE_URL, withListOptions(params, options));
   }
   
   // Backlinks API
-  async getBacklinks(target: string, limit?: number): Promise<SemrushApiResponse> {
+  async getBacklinks(target: BacklinkTarget, options: ListOptions = {}): Promise<SemrushApiResponse> {
     const params: ApiQueryParams = {
       type: 'backlinks',
-      target,
+      target: target.target,
+      target_type: target.targetType,
       export_columns: 'source_title,source_url,target_url,anchor,page_score,domain_score,external_num,internal_num,first_seen,last_seen'
     };
     
-    if (limit) {
-      params.display_limit = limit;
-    }
-    
-    return this.makeRequest(SEMRUSH_API_BASE_URL, params);
+    return this.makeRequest(SEMRUSH_API_BASE_URL, withListOptions(params, options));
   }
   
-  async getBacklinksDomains(target: string, limit?: number): Promise<SemrushApiResponse> {
+  async getBacklinksDomains(target: BacklinkTarget, options: ListOptions = {}): Promise<SemrushApiResponse> {
     const params: ApiQueryParams = {
       type: 'backlinks_refdomains',
-      target,
+      target: target.target,
+      target_type: target.targetType,
       export_columns: 'domain,domain_score,backlinks_num,ip,country,first_seen,last_seen'
     };
     
-    if (limit) {
-      params.display_limit = limit;
-    }
+    return this.makeRequest(SEMRUSH_API_BASE_URL, withListOptions(params, options));
+  }
+  
+  async getBacklinksOverview(target: BacklinkTarget): Promise<SemrushApiResponse> {
+    return this.makeRequest(SEMRUSH_API_BASE_URL, {
+      type: 'backlinks_overview',
+      target: target.target,
+      target_type: target.targetType,
+      export_columns: 'ascore,total,domains_num,urls_num,ips_num,ipclassc_num,follows_num,nofollows_num,sponsored_num,ugc_num,texts_num,images_num,forms_num,frames_num'
+    });
+  }
+  
+  async getBacklinksAnchors(target: BacklinkTarget, options: ListOptions = {}): Promise<SemrushApiResponse> {
+    const params: ApiQueryParams = {
+      type: 'backlinks_anchors',
+      target: target.target,
+      target_type: target.targetType,
+      export_columns: 'anchor,domains_num,backlinks_num,first_seen,last_seen'
+    };
+    
+    return this.makeRequest(SEMRUSH_API_BASE_URL, withListOptions(params, options));
+  }
+  
+  async getBacklinksTld(target: BacklinkTarget, options: ListOptions = {}): Promise<SemrushApiResponse> {
+    const params: ApiQueryParams = {
+      type: 'backlinks_tld',
+      target: target.target,
+      target_type: target.targetType,
+      export_columns: 'zone,domains_num,backlinks_num'
+    };
+    
+    return this.makeRequest(SEMRUSH_API_BASE_URL, withListOptions(params, options));
+  }
+  
+  async getBacklinksGeo(target: BacklinkTarget, options: ListOptions = {}): Promise<SemrushApiResponse> {
+    const params: ApiQueryParams = {
+      type: 'backlinks_geo',
+      target: target.target,
+      target_type: target.targetType,
+      export_columns: 'country,domains_num,backlinks_num'
+    };
     
-    return this.makeRequest(SEMRUSH_API_BASE_URL, params);
+    return this.makeRequest(SEMRUSH_API_BASE_URL, withListOptions(params, options));
+  }
+  
+  async getBacklinksPages(target: BacklinkTarget, options: ListOptions = {}): Promise<SemrushApiResponse> {
+    const params: ApiQueryParams = {
+      type: 'backlinks_pages',
+      target: target.target,
+      target_type: target.targetType,
+      export_columns: 'source_url,source_title,response_code,backlinks_num,domains_num,last_seen,external_num,internal_num'
+    };
+    
+    return this.makeRequest(SEMRUSH_API_BASE_URL, withListOptions(params, options));
+  }
+  
+  async getBacklinksHistorical(target: BacklinkTarget, options: ListOptions = {}): Promise<SemrushApiResponse> {
+    const params: ApiQueryParams = {
+      type: 'backlinks_historical',
+      target: target.target,
+      target_type: target.targetType,
+      export_columns: 'date,ascore,backlinks_num,domains_num,urls_num,follows_num,nofollows_num,texts_num,images_num'
+    };
+    
+    return this.makeRequest(SEMRUSH_API_BASE_URL, withListOptions(params, options));
+  }
+  
+  async getBacklinksCategories(target: BacklinkTarget): Promise<SemrushApiResponse> {
+    return this.makeRequest(SEMRUSH_API_BASE_URL, {
+      type: 'backlinks_categories',
+      target: target.target,
+      target_type: target.targetType,
+      export_columns: 'category_name,rating'
+    });
+  }
+  
+  async getBacklinksComparison(targets: BacklinkTarget[]): Promise<SemrushApiResponse> {
+    return this.makeRequest(SEMRUSH_API_BASE_URL, {
+      type: 'backlinks_comparison',
+      targets: targets.map(target => target.target),
+      target_types: targets.map(target => target.targetType),
+      export_columns: 'target,target_type,ascore,backlinks_num,domains_num,ips_num,follows_num,nofollows_num'
+    });
+  }
+  
+  async getBacklinksMatrix(targets: BacklinkTarget[], options: ListOptions = {}): Promise<SemrushApiResponse> {
+    const params: ApiQueryParams = {
+      type: 'backlinks_matrix',
+      targets: targets.map(target => target.target),
+      target_types: targets.map(target => target.targetType),
+      export_columns: 'domain,domain_ascore,matches_num,backlinks_num'
+    };
+    
+    return this.makeRequest(SEMRUSH_API_BASE_URL, withListOptions(params, options));
   }
   
   // Keyword Analytics
@@ -243,7 +740,7 @@ export class SemrushApiClient {
     });
   }
   
-  async getRelatedKeywords(keyword: string, database: string = 'us', limit?: number): Promise<SemrushApiResponse> {
+  async getRelatedKeywords(keyword: string, database: string = 'us', options: ListOptions = {}): Promise<SemrushApiResponse> {
     const params: ApiQueryParams = {
       type: 'phrase_related',
       phrase: keyword,
@@ -251,35 +748,33 @@ export class SemrushApiClient {
       export_columns: 'Ph,Nq,Cp,Co,Nr,Td'
     };
     
-    if (limit) {
-      params.display_limit = limit;
-    }
-    
-    return this.makeRequest(SEMRUSH_API_BASE_URL, params);
+    return this.makeRequest(SEMRUSH_API_BASE_URL, withListOptions(params, options));
   }
   
   // Keyword Overview for one database (vs phrase_all which is all databases)
-  async getKeywordOverviewSingleDb(keyword: string, database: string): Promise<SemrushApiResponse> {
+  async getKeywordOverviewSingleDb(keyword: string, database: string, displayDate?: string): Promise<SemrushApiResponse> {
     return this.makeRequest(SEMRUSH_API_BASE_URL, {
       type: 'phrase_this',
       phrase: keyword,
       database,
+      display_date: displayDate,
       export_columns: 'Ph,Nq,Cp,Co,Nr,Td,In,Kd'
     });
   }
 
   // Batch Keyword Overview - analyze up to 100 keywords at once
-  async getBatchKeywordOverview(keywords: string[], database: string): Promise<SemrushApiResponse> {
+  async getBatchKeywordOverview(keywords: string[], database: string, displayDate?: string): Promise<SemrushApiResponse> {
     return this.makeRequest(SEMRUSH_API_BASE_URL, {
       type: 'phrase_these',
       phrase: keywords.join(';'),
       database,
+      display_date: displayDate,
       export_columns: 'Ph,Nq,Cp,Co,Nr,Td,In,Kd'
     });
   }
 
   // Organic Results - domains ranking in Google's top 100 for a keyword
-  async getKeywordOrganicResults(keyword: string, database: string, limit?: number): Promise<SemrushApiResponse> {
+  async getKeywordOrganicResults(keyword: string, database: string, options: ListOptions = {}): Promise<SemrushApiResponse> {
     const params: ApiQueryParams = {
       type: 'phrase_organic',
       phrase: keyword,
@@ -287,15 +782,11 @@ export class SemrushApiClient {
       export_columns: 'Po,Pt,Dn,Ur,Fk,Fp,Fl'
     };
     
-    if (limit) {
-      params.display_limit = limit;
-    }
-    
-    return this.makeRequest(SEMRUSH_API_BASE_URL, params);
+    return this.makeRequest(SEMRUSH_API_BASE_URL, withListOptions(params, options));
   }
 
   // Paid Results - domains in Google's paid search results for a keyword
-  async getKeywordPaidResults(keyword: string, database: string, limit?: number): Promise<SemrushApiResponse> {
+  async getKeywordPaidResults(keyword: string, database: string, options: ListOptions = {}): Promise<SemrushApiResponse> {
     const params: ApiQueryParams = {
       type: 'phrase_adwords',
       phrase: keyword,
@@ -303,15 +794,11 @@ export class SemrushApiClient {
       export_columns: 'Dn,Ur,Vu'
     };
     
-    if (limit) {
-      params.display_limit = limit;
-    }
-    
-    return this.makeRequest(SEMRUSH_API_BASE_URL, params);
+    return this.makeRequest(SEMRUSH_API_BASE_URL, withListOptions(params, options));
   }
 
   // Keyword Ads History - domains that bid on a keyword in last 12 months
-  async getKeywordAdsHistory(keyword: string, database: string, limit?: number): Promise<SemrushApiResponse> {
+  async getKeywordAdsHistory(keyword: string, database: string, options: ListOptions = {}): Promise<SemrushApiResponse> {
     const params: ApiQueryParams = {
       type: 'phrase_adwords_historical',
       phrase: keyword,
@@ -319,15 +806,11 @@ export class SemrushApiClient {
       export_columns: 'Dn,Dt,Po,Ur,Tt,Ds,Vu'
     };
     
-    if (limit) {
-      params.display_limit = limit;
-    }
-    
-    return this.makeRequest(SEMRUSH_API_BASE_URL, params);
+    return this.makeRequest(SEMRUSH_API_BASE_URL, withListOptions(params, options));
   }
 
   // Broad Match Keywords - broad matches and alternative search queries
-  async getBroadMatchKeywords(keyword: string, database: string, limit?: number): Promise<SemrushApiResponse> {
+  async getBroadMatchKeywords(keyword: string, database: string, options: ListOptions = {}): Promise<SemrushApiResponse> {
     const params: ApiQueryParams = {
       type: 'phrase_fullsearch',
       phrase: keyword,
@@ -335,15 +818,11 @@ export class SemrushApiClient {
       export_columns: 'Ph,Nq,Cp,Co,Nr,Td,Fk,In,Kd'
     };
     
-    if (limit) {
-      params.display_limit = limit;
-    }
-    
-    return this.makeRequest(SEMRUSH_API_BASE_URL, params);
+    return this.makeRequest(SEMRUSH_API_BASE_URL, withListOptions(params, options));
   }
 
   // Phrase Questions - question-based keywords related to a term
-  async getPhraseQuestions(keyword: string, database: string, limit?: number): Promise<SemrushApiResponse> {
+  async getPhraseQuestions(keyword: string, database: string, options: ListOptions = {}): Promise<SemrushApiResponse> {
     const params: ApiQueryParams = {
       type: 'phrase_questions',
       phrase: keyword,
@@ -351,11 +830,7 @@ export class SemrushApiClient {
       export_columns: 'Ph,Nq,Cp,Co,Nr,Td,In,Kd'
     };
     
-    if (limit) {
-      params.display_limit = limit;
-    }
-    
-    return this.makeRequest(SEMRUSH_API_BASE_URL, params);
+    return this.makeRequest(SEMRUSH_API_BASE_URL, withListOptions(params, options));
   }
 
   // Keyword Difficulty - estimates difficulty of ranking in top 10
@@ -369,20 +844,159 @@ export class SemrushApiClient {
   }
   
   // Traffic Analytics (.Trends API) - Requires separate subscription
-  async getTrafficSummary(domains: string[], country: string = 'us'): Promise<SemrushApiResponse> {
-    return this.makeRequest(TRENDS_API_BASE_URL + 'summary', {
+  private trendsRequest(endpoint: string, params: ApiQueryParams, query: TrendsQuery): Promise<SemrushApiResponse> {
+    return this.makeRequest(TRENDS_API_BASE_URL + endpoint, {
+      ...params,
+      date: query.date,
+      device_type: query.deviceType === 'all' ? undefined : query.deviceType
+    });
+  }
+  
+  async getTrafficSummary(domains: string[], country: string = 'us', query: TrendsQuery = {}): Promise<SemrushApiResponse> {
+    const daily = query.granularity === 'daily';
+    return this.trendsRequest(daily ? 'summary_by_day' : 'summary', {
       domains: domains.join(','),
       country,
-      date: 'all'
-    });
+      export_columns: daily ? 'target,date,visits,users' : 'target,visits,users,pages_per_visit,time_on_site,bounce_rate'
+    }, query);
   }
   
-  async getTrafficSources(domain: string, country: string = 'us'): Promise<SemrushApiResponse> {
-    return this.makeRequest(TRENDS_API_BASE_URL + 'sources', {
+  async getTrafficSources(domain: string, country: string = 'us', query: TrendsQuery = {}, options: ListOptions = {}): Promise<SemrushApiResponse> {
+    return this.trendsRequest('sources', withListOptions({
       domain,
       country,
-      date: 'all'
+      export_columns: 'from_target,channel,traffic,traffic_share'
+    }, options), query);
+  }
+  
+  async getTrafficDestinations(domain: string, country: string = 'us', query: TrendsQuery = {}, options: ListOptions = {}): Promise<SemrushApiResponse> {
+    return this.trendsRequest('destinations', withListOptions({
+      domain,
+      country,
+      export_columns: 'to_target,traffic,traffic_share'
+    }, options), query);
+  }
+  
+  async getTrafficTopPages(domain: string, country: string = 'us', query: TrendsQuery = {}, options: ListOptions = {}): Promise<SemrushApiResponse> {
+    return this.trendsRequest('toppages', withListOptions({
+      domain,
+      country,
+      export_columns: 'page,traffic,traffic_share'
+    }, options), query);
+  }
+  
+  // Geo distribution covers all countries, so it takes no country
+  async getTrafficGeo(domain: string, query: TrendsQuery = {}, options: ListOptions = {}): Promise<SemrushApiResponse> {
+    return this.trendsRequest('geo', withListOptions({
+      domain,
+      export_columns: 'geo,traffic,traffic_share,users'
+    }, options), query);
+  }
+  
+  async getTrafficSubdomains(domain: string, country: string = 'us', query: TrendsQuery = {}, options: ListOptions = {}): Promise<SemrushApiResponse> {
+    return this.trendsRequest('subdomains', withListOptions({
+      domain,
+      country,
+      export_columns: 'subdomain,traffic,traffic_share,users'
+    }, options), query);
+  }
+  
+  // Audience Overlap - how many visitors the domains share
+  async getAudienceOverlap(domains: string[], country: string = 'us', query: TrendsQuery = {}): Promise<SemrushApiResponse> {
+    return this.trendsRequest('audience_insights', {
+      domains: domains.join(','),
+      country,
+      export_columns: 'target,overlap_score,similarity,users'
+    }, query);
+  }
+  
+  // Accuracy - how reliable the traffic estimates for each domain are
+  async getTrafficAccuracy(domains: string[], country: string = 'us', query: TrendsQuery = {}): Promise<SemrushApiResponse> {
+    return this.trendsRequest('accuracy', {
+      domains: domains.join(','),
+      country,
+      export_columns: 'target,accuracy'
+    }, query);
+  }
+  
+  // Projects API - JSON endpoints authenticated with the API key or an OAuth token
+  private projectsRequest(path: string, params: ApiQueryParams = {}, options: AxiosRequestConfig = {}): Promise<SemrushApiResponse> {
+    const headers = this.oauthToken ? { Authorization: `Bearer ${this.oauthToken}` } : undefined;
+    return this.makeRequest(config.SEMRUSH_PROJECTS_API_URL + path, params, { ...options, headers });
+  }
+  
+  // Drop cached reports of a project after its tracked keywords change
+  private async invalidateProject(projectId: number): Promise<void> {
+    const entries = await this.ownCacheEntries();
+    await Promise.all(entries
+      .filter(entry => entry.key.includes(`/projects/${projectId}/`))
+      .map(entry => apiCache.delete(entry.key)));
+  }
+  
+  async getProjects(): Promise<SemrushApiResponse> {
+    return this.projectsRequest('management/v1/projects');
+  }
+  
+  // Position Tracking - reports of a project's tracking campaign for a domain mask such as "*.example.com/*"
+  async getTrackingReport(projectId: number, reportType: TrackingReportType, query: TrackingQuery, options: ListOptions = {}): Promise<SemrushApiResponse> {
+    return this.projectsRequest(`reports/v1/projects/${projectId}/tracking/`, withListOptions({
+      action: 'report',
+      type: reportType,
+      url: query.url,
+      date_begin: query.dateBegin,
+      date_end: query.dateEnd
+    }, options));
+  }
+  
+  async addTrackedKeywords(projectId: number, keywords: TrackedKeyword[]): Promise<SemrushApiResponse> {
+    const response = await this.projectsRequest(`management/v1/projects/${projectId}/keywords`, {}, {
+      method: 'post',
+      data: { keywords }
     });
+    await this.invalidateProject(projectId);
+    return response;
+  }
+  
+  async removeTrackedKeywords(projectId: number, keywords: string[]): Promise<SemrushApiResponse> {
+    const response = await this.projectsRequest(`management/v1/projects/${projectId}/keywords/delete`, {}, {
+      method: 'post',
+      data: { keywords }
+    });
+    await this.invalidateProject(projectId);
+    return response;
+  }
+  
+  // Site Audit - crawls of a project's site, each stored as a snapshot
+  async getSiteAuditInfo(projectId: number): Promise<SemrushApiResponse> {
+    return this.projectsRequest(`reports/v1/projects/${projectId}/siteaudit/info`);
+  }
+  
+  async launchSiteAudit(projectId: number): Promise<SemrushApiResponse> {
+    const response = await this.projectsRequest(`reports/v1/projects/${projectId}/siteaudit/launch`, {}, { method: 'post' });
+    await this.invalidateProject(projectId);
+    return response;
+  }
+  
+  async getSiteAuditSnapshots(projectId: number): Promise<SemrushApiResponse> {
+    return this.projectsRequest(`reports/v1/projects/${projectId}/siteaudit/snapshots`);
+  }
+  
+  // Errors, warnings and notices found in a snapshot, with the number of affected pages per issue
+  async getSiteAuditSnapshot(projectId: number, snapshotId: string): Promise<SemrushApiResponse> {
+    return this.projectsRequest(`reports/v1/projects/${projectId}/siteaudit/snapshot`, { snapshot_id: snapshotId });
+  }
+  
+  // Pages affected by one issue in a snapshot
+  async getSiteAuditIssue(projectId: number, snapshotId: string, issueId: number, page?: number, limit?: number): Promise<SemrushApiResponse> {
+    return this.projectsRequest(`reports/v1/projects/${projectId}/siteaudit/snapshot/${snapshotId}/issue/${issueId}`, {
+      page,
+      limit
+    });
+  }
+  
+  // Titles and descriptions of every Site Audit issue type
+  async getSiteAuditIssueTypes(projectId: number): Promise<SemrushApiResponse> {
+    return this.projectsRequest(`reports/v1/projects/${projectId}/siteaudit/meta/issues`);
   }
   
   // Utility to check API units balance
@@ -392,6 +1006,3 @@ export class SemrushApiClient {
     });
   }
 }
-
-// Export a singleton instance
-export const semrushApi = new SemrushApiClient(); 
\ No newline at end of file
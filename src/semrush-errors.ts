@@ -0,0 +1,177 @@
+// Semrush error catalogue and typed errors
+
+// Broad classes of failure, used to decide how an error is reported and whether it is retried
+export type SemrushErrorCategory =
+  | 'not_found'
+  | 'invalid_request'
+  | 'auth'
+  | 'access'
+  | 'quota'
+  | 'budget'
+  | 'rate_limit'
+  | 'network'
+  | 'server'
+  | 'unknown';
+
+export interface SemrushApiErrorOptions {
+  code?: number;
+  category?: SemrushErrorCategory;
+  retryable?: boolean;
+  retryAfterMs?: number;
+}
+
+// Tool arguments that can't be turned into a valid request; nothing was sent to Semrush
+export class InvalidArgumentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidArgumentError';
+  }
+}
+
+// Error handling
+export class SemrushApiError extends Error {
+  public status: number;
+  public response?: any;
+  public code?: number;
+  public category: SemrushErrorCategory;
+  public retryable: boolean;
+  public retryAfterMs?: number;
+  public retries = 0; // Retries spent before giving up
+
+  constructor(message: string, status: number, response?: any, options: SemrushApiErrorOptions = {}) {
+    super(message);
+    this.name = 'SemrushApiError';
+    this.status = status;
+    this.response = response;
+    this.code = options.code;
+    this.category = options.category ?? 'unknown';
+    this.retryable = options.retryable ?? false;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+// The query matched no data
+export class SemrushNothingFoundError extends SemrushApiError {
+  constructor(message: string, code: number, response?: any) {
+    super(message, 404, response, { code, category: 'not_found' });
+    this.name = 'SemrushNothingFoundError';
+  }
+}
+
+// A parameter was missing or malformed
+export class SemrushInvalidRequestError extends SemrushApiError {
+  constructor(message: string, code: number, response?: any) {
+    super(message, 400, response, { code, category: 'invalid_request' });
+    this.name = 'SemrushInvalidRequestError';
+  }
+}
+
+// The API key was rejected
+export class SemrushAuthError extends SemrushApiError {
+  constructor(message: string, code: number, response?: any) {
+    super(message, 401, response, { code, category: 'auth' });
+    this.name = 'SemrushAuthError';
+  }
+}
+
+// The account has no access to the API, database or report
+export class SemrushAccessError extends SemrushApiError {
+  constructor(message: string, code: number, response?: any) {
+    super(message, 403, response, { code, category: 'access' });
+    this.name = 'SemrushAccessError';
+  }
+}
+
+// The API units balance or account limits are exhausted
+export class SemrushQuotaError extends SemrushApiError {
+  constructor(message: string, code: number, response?: any) {
+    super(message, 402, response, { code, category: 'quota' });
+    this.name = 'SemrushQuotaError';
+  }
+}
+
+// Too many simultaneous requests; safe to retry after a pause
+export class SemrushRateLimitError extends SemrushApiError {
+  constructor(message: string, code: number, response?: any) {
+    super(message, 429, response, { code, category: 'rate_limit', retryable: true });
+    this.name = 'SemrushRateLimitError';
+  }
+}
+
+// The circuit breaker is open and requests are failing fast
+export class SemrushCircuitOpenError extends SemrushApiError {
+  constructor(retryInMs: number) {
+    super(
+      `Semrush API is unavailable after repeated failures; retrying in ${Math.ceil(retryInMs / 1000)}s`,
+      503,
+      undefined,
+      { category: 'server' }
+    );
+    this.name = 'SemrushCircuitOpenError';
+  }
+}
+
+// A locally configured API unit budget would be exceeded; the request was not sent
+export class SemrushBudgetExceededError extends SemrushApiError {
+  constructor(budget: string, estimatedUnits: number, remainingUnits: number) {
+    super(
+      `Request refused: it could spend up to ${estimatedUnits} API units but only ${Math.max(0, remainingUnits)} remain in the ${budget} budget. Lower the limit or raise UNITS_BUDGET_${budget.toUpperCase()}`,
+      402,
+      undefined,
+      { category: 'budget' }
+    );
+    this.name = 'SemrushBudgetExceededError';
+  }
+}
+
+type SemrushErrorClass = new (message: string, code: number, response?: any) => SemrushApiError;
+
+interface SemrushErrorDefinition {
+  errorClass: SemrushErrorClass;
+  hint: string;
+}
+
+// Known error codes returned in the body of Semrush Analytics API responses
+export const SEMRUSH_ERROR_CODES: Record<number, SemrushErrorDefinition> = {
+  30: { errorClass: SemrushRateLimitError, hint: 'Too many simultaneous requests; retry shortly.' },
+  40: { errorClass: SemrushInvalidRequestError, hint: 'A mandatory parameter is missing.' },
+  50: { errorClass: SemrushNothingFoundError, hint: 'Semrush has no data for this query.' },
+  120: { errorClass: SemrushAuthError, hint: 'Check that SEMRUSH_API_KEY is correct.' },
+  121: { errorClass: SemrushAuthError, hint: 'Check that SEMRUSH_API_KEY is correct.' },
+  130: { errorClass: SemrushAccessError, hint: 'API access is disabled for this account.' },
+  131: { errorClass: SemrushQuotaError, hint: 'The account request limit has been reached.' },
+  132: { errorClass: SemrushQuotaError, hint: 'Top up API units in the Semrush subscription settings.' },
+  133: { errorClass: SemrushAccessError, hint: 'The subscription does not include this regional database.' },
+  134: { errorClass: SemrushQuotaError, hint: 'The account total request limit has been reached.' },
+  135: { errorClass: SemrushAccessError, hint: 'This report type is disabled for the account.' },
+};
+
+// Matches bodies such as "ERROR 50 :: NOTHING FOUND"
+const ERROR_BODY_PATTERN = /^\s*ERROR\s+(\d+)\s*::\s*(.+?)\s*$/m;
+
+/**
+ * Detect an error payload in a Semrush response body.
+ * Returns a typed error for the code, or undefined when the body is a normal report.
+ */
+export function parseSemrushErrorBody(body: unknown): SemrushApiError | undefined {
+  if (typeof body !== 'string') {
+    return undefined;
+  }
+
+  const match = body.trimStart().startsWith('ERROR') ? ERROR_BODY_PATTERN.exec(body) : null;
+  if (!match) {
+    return undefined;
+  }
+
+  const code = parseInt(match[1], 10);
+  const message = match[2];
+  const definition = SEMRUSH_ERROR_CODES[code];
+  if (!definition) {
+    return new SemrushApiError(message, 400, body, { code });
+  }
+  return new definition.errorClass(message, code, body);
+}
+
+// Human guidance for a known error code
+export const getErrorHint = (code?: number): string | undefined =>
+  code !== undefined ? SEMRUSH_ERROR_CODES[code]?.hint : undefined;
@@ -0,0 +1,2439 @@
+import { logger } from './config.js';
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  CallToolRequestSchema,
+  ErrorCode,
+  GetPromptRequestSchema,
+  ListToolsRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  Tool,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { z } from 'zod';
+import { ListOptions, POSITION_CHANGES, SemrushApiClient, SemrushApiError, SemrushApiResponse } from './semrush-api.js';
+import { combineResponses, paginate } from './pagination.js';
+import { buildGapQuery, gapExportColumns, GAP_MODES, GAP_TYPES, MAX_GAP_DOMAINS, toGapRows } from './keyword-gap.js';
+import { countMonths, latestSnapshotMonth, SnapshotDateError, toDisplayDate, toSnapshotMonth } from './dates.js';
+import { compileFilters, compileSort, FilterSchema, SortSchema } from './filters.js';
+import { getUnitsPerLine } from './units.js';
+import { getPrompt, PROMPT_LIST, PromptError } from './prompts.js';
+import { formatRows, OUTPUT_FORMATS, selectColumns } from './formats.js';
+import type { SemrushRow } from './response-parser.js';
+import { parseResourceUri, recentReports, recordToolReport, RESOURCE_MIME_TYPE, RESOURCE_TEMPLATES, ResourceNotFoundError } from './resources.js';
+import { compareSnapshots, issueTitles, latestSnapshotId, siteAuditProjects, SnapshotIssues } from './site-audit.js';
+import { MAX_KEYWORDS_PER_REQUEST, toDomainMask, toTrackingDate, TRACKING_REPORTS, TrackingView } from './position-tracking.js';
+import { fetchTrendsMonths, TRENDS_DEVICE_TYPES, TRENDS_GRANULARITIES, TrendsQuery, trendsMonths } from './trends.js';
+import { BacklinkTarget, normalizeTarget, TARGET_TYPES, TargetValidationError } from './targets.js';
+import { MAX_BACKLINK_GAP_COMPETITORS, MAX_COMPARISON_TARGETS, toBacklinkGapRows } from './backlink-gap.js';
+import { createSessionBudget } from './budget.js';
+import { getErrorHint, InvalidArgumentError, SemrushNothingFoundError } from './semrush-errors.js';
+
+// Request and output options shared by every tool
+const COMMON_PROPERTIES = {
+  format: {
+    type: 'string',
+    enum: [...OUTPUT_FORMATS],
+    description: 'json: array of rows; markdown: a table for chat display; csv: comma-separated values with a header row (default "json")',
+  },
+  columns: {
+    type: 'array',
+    items: {
+      type: 'string',
+    },
+    description: 'Output fields to return, in this order (e.g., ["keyword", "search_volume"]); default all',
+  },
+  raw: {
+    type: 'boolean',
+    description: 'Return the raw semicolon-separated Semrush response instead of parsed rows',
+  },
+  timeout_ms: {
+    type: 'number',
+    description: 'Timeout for each Semrush request in milliseconds',
+  },
+};
+
+// Paging options shared by list reports
+const LIST_PROPERTIES = {
+  offset: {
+    type: 'number',
+    description: 'Number of rows to skip (display_offset)',
+  },
+  cursor: {
+    type: 'string',
+    description: 'Continuation token from the nextCursor of a previous result, to fetch the next page; repeat the other arguments of that call',
+  },
+  auto_page: {
+    type: 'boolean',
+    description: 'Fetch several pages of "limit" rows (default 100) until max_rows rows are collected',
+  },
+  max_rows: {
+    type: 'number',
+    description: 'Maximum rows to collect when auto_page is true (default 1000)',
+  },
+  max_units: {
+    type: 'number',
+    description: 'Stop auto-paging before a page could push the estimated API units spent above this budget',
+  },
+};
+
+// Target options shared by backlinks reports
+const TARGET_PROPERTIES = {
+  target_type: {
+    type: 'string',
+    enum: ['root_domain', 'domain', 'url'],
+    description: 'How to interpret the target: the whole root domain, a single (sub)domain or one URL. Inferred from the target when omitted',
+  },
+};
+
+// Date range and device options shared by .Trends traffic reports
+const TRENDS_PROPERTIES = {
+  date_from: {
+    type: 'string',
+    description: 'First month to fetch (YYYY-MM). Each month is a separate request, up to 12 months',
+  },
+  date_to: {
+    type: 'string',
+    description: 'Last month to fetch (YYYY-MM, default: latest complete month). Set alone for a single month',
+  },
+  device_type: {
+    type: 'string',
+    enum: ['all', 'desktop', 'mobile'],
+    description: 'Device type to count traffic for (default "all")',
+  },
+};
+
+// Filtering and sorting options for reports that support display_filter and display_sort
+const FILTER_PROPERTIES = {
+  filters: {
+    type: 'array',
+    items: {
+      type: 'object',
+      properties: {
+        field: {
+          type: 'string',
+          description: 'Output field to filter on (e.g., "search_volume", "position", "cpc", "url")',
+        },
+        operator: {
+          type: 'string',
+          enum: ['eq', 'gt', 'lt', 'contains', 'begins_with', 'ends_with'],
+          description: 'eq/gt/lt for numeric fields; eq/contains/begins_with/ends_with for text fields',
+        },
+        value: {
+          type: ['string', 'number'],
+          description: 'Value to compare against',
+        },
+        exclude: {
+          type: 'boolean',
+          description: 'Exclude matching rows instead of keeping them',
+        },
+      },
+      required: ['field', 'operator', 'value'],
+    },
+    description: 'Filters applied by Semrush before rows are returned (and billed)',
+  },
+  sort: {
+    type: 'object',
+    properties: {
+      field: {
+        type: 'string',
+        description: 'Output field to sort by (e.g., "traffic_percent", "search_volume")',
+      },
+      order: {
+        type: 'string',
+        enum: ['asc', 'desc'],
+        description: 'Sort order (default "desc")',
+      },
+    },
+    required: ['field'],
+    description: 'Sort order applied by Semrush',
+  },
+};
+
+// Define the tools that our MCP server will expose
+const TOOLS: Tool[] = [
+  {
+    name: 'semrush_domain_overview',
+    description: 'Get domain overview data including organic/paid search traffic, keywords, and rankings',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        domain: {
+          type: 'string',
+          description: 'Domain name to analyze (e.g., "example.com")',
+        },
+        database: {
+          type: 'string',
+          description: 'Database to use (e.g., "us", "uk", "ca", etc.)',
+        },
+        date: {
+          type: 'string',
+          description: 'Historical monthly snapshot to read, as YYYY-MM (defaults to current data)',
+        },
+        ...COMMON_PROPERTIES,
+      },
+      required: ['domain'],
+    },
+  },
+  {
+    name: 'semrush_domain_organic_keywords',
+    description: 'Get organic keywords for a specific domain',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        domain: {
+          type: 'string',
+          description: 'Domain name to analyze (e.g., "example.com")',
+        },
+        database: {
+          type: 'string',
+          description: 'Database to use (e.g., "us", "uk", "ca", etc.)',
+        },
+        date: {
+          type: 'string',
+          description: 'Historical monthly snapshot to read, as YYYY-MM (defaults to current data)',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of keywords to return',
+        },
+        ...LIST_PROPERTIES,
+        ...FILTER_PROPERTIES,
+        ...COMMON_PROPERTIES,
+      },
+      required: ['domain'],
+    },
+  },
+  {
+    name: 'semrush_position_changes',
+    description: 'Get the keywords a domain gained, lost, improved or declined on, with previous and current positions and their share of the domain\'s traffic',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        domain: {
+          type: 'string',
+          description: 'Domain name to analyze (e.g., "example.com")',
+        },
+        database: {
+          type: 'string',
+          description: 'Database to use (e.g., "us", "uk", "ca", etc.)',
+        },
+        changes: {
+          type: 'array',
+          items: {
+            type: 'string',
+            enum: ['new', 'lost', 'rise', 'fall'],
+          },
+          description: 'Changes to return: new (gained), lost, rise (improved) and/or fall (declined). Default: all four',
+        },
+        daily: {
+          type: 'boolean',
+          description: 'Compare with the previous day instead of the previous month',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of keywords to return per change (default 100)',
+        },
+        ...FILTER_PROPERTIES,
+        ...COMMON_PROPERTIES,
+      },
+      required: ['domain'],
+    },
+  },
+  {
+    name: 'semrush_domain_history',
+    description: 'Get monthly Semrush rank, organic/paid traffic and keyword counts for a domain over time (10 API units per line)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        domain: {
+          type: 'string',
+          description: 'Domain name to analyze (e.g., "example.com")',
+        },
+        database: {
+          type: 'string',
+          description: 'Database to use (e.g., "us", "uk", "ca", etc.)',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of months to return, most recent first. Not allowed with date_from/date_to',
+        },
+        date_from: {
+          type: 'string',
+          description: 'Earliest month to include, as YYYY-MM. Every month from date_from to the latest one is billed',
+        },
+        date_to: {
+          type: 'string',
+          description: 'Latest month to include, as YYYY-MM. Without date_from the full history is fetched and billed',
+        },
+        ...COMMON_PROPERTIES,
+      },
+      required: ['domain'],
+    },
+  },
+  {
+    name: 'semrush_domain_paid_keywords',
+    description: 'Get paid keywords for a specific domain',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        domain: {
+          type: 'string',
+          description: 'Domain name to analyze (e.g., "example.com")',
+        },
+        database: {
+          type: 'string',
+          description: 'Database to use (e.g., "us", "uk", "ca", etc.)',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of keywords to return',
+        },
+        ...LIST_PROPERTIES,
+        ...FILTER_PROPERTIES,
+        ...COMMON_PROPERTIES,
+      },
+      required: ['domain'],
+    },
+  },
+  {
+    name: 'semrush_domain_top_pages',
+    description: 'Get the pages of a domain that drive the most organic traffic',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        domain: {
+          type: 'string',
+          description: 'Domain name to analyze (e.g., "example.com")',
+        },
+        database: {
+          type: 'string',
+          description: 'Database to use (e.g., "us", "uk", "ca", etc.)',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of pages to return',
+        },
+        ...LIST_PROPERTIES,
+        ...FILTER_PROPERTIES,
+        ...COMMON_PROPERTIES,
+      },
+      required: ['domain'],
+    },
+  },
+  {
+    name: 'semrush_domain_subdomains',
+    description: 'Get the subdomains of a domain ranked by organic traffic',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        domain: {
+          type: 'string',
+          description: 'Domain name to analyze (e.g., "example.com")',
+        },
+        database: {
+          type: 'string',
+          description: 'Database to use (e.g., "us", "uk", "ca", etc.)',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of subdomains to return',
+        },
+        ...LIST_PROPERTIES,
+        ...COMMON_PROPERTIES,
+      },
+      required: ['domain'],
+    },
+  },
+  {
+    name: 'semrush_url_organic_keywords',
+    description: 'Get the organic keywords a specific URL ranks for',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        url: {
+          type: 'string',
+          description: 'Full URL to analyze (e.g., "https://example.com/blog/post")',
+        },
+        database: {
+          type: 'string',
+          description: 'Database to use (e.g., "us", "uk", "ca", etc.)',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of keywords to return',
+        },
+        ...LIST_PROPERTIES,
+        ...FILTER_PROPERTIES,
+        ...COMMON_PROPERTIES,
+      },
+      required: ['url'],
+    },
+  },
+  {
+    name: 'semrush_url_paid_keywords',
+    description: 'Get the paid keywords a specific URL is advertised for, with the ad texts',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        url: {
+          type: 'string',
+          description: 'Full URL to analyze (e.g., "https://example.com/landing")',
+        },
+        database: {
+          type: 'string',
+          description: 'Database to use (e.g., "us", "uk", "ca", etc.)',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of keywords to return',
+        },
+        ...LIST_PROPERTIES,
+        ...FILTER_PROPERTIES,
+        ...COMMON_PROPERTIES,
+      },
+      required: ['url'],
+    },
+  },
+  {
+    name: 'semrush_domain_ad_copies',
+    description: 'Get the unique ad copies a domain runs in paid search, with the number of keywords triggering each',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        domain: {
+          type: 'string',
+          description: 'Domain name to analyze (e.g., "example.com")',
+        },
+        database: {
+          type: 'string',
+          description: 'Database to use (e.g., "us", "uk", "ca", etc.)',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of ads to return',
+        },
+        ...LIST_PROPERTIES,
+        ...FILTER_PROPERTIES,
+        ...COMMON_PROPERTIES,
+      },
+      required: ['domain'],
+    },
+  },
+  {
+    name: 'semrush_domain_ads_history',
+    description: 'Get the keywords a domain bid on over the last 12 months, with its position and ad text each month (100 API units per line)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        domain: {
+          type: 'string',
+          description: 'Domain name to analyze (e.g., "example.com")',
+        },
+        database: {
+          type: 'string',
+          description: 'Database to use (e.g., "us", "uk", "ca", etc.)',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of keywords to return',
+        },
+        ...LIST_PROPERTIES,
+        ...FILTER_PROPERTIES,
+        ...COMMON_PROPERTIES,
+      },
+      required: ['domain'],
+    },
+  },
+  {
+    name: 'semrush_paid_competitors',
+    description: 'Get the domains competing with a domain in paid search results',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        domain: {
+          type: 'string',
+          description: 'Domain name to analyze (e.g., "example.com")',
+        },
+        database: {
+          type: 'string',
+          description: 'Database to use (e.g., "us", "uk", "ca", etc.)',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of competitors to return',
+        },
+        ...LIST_PROPERTIES,
+        ...FILTER_PROPERTIES,
+        ...COMMON_PROPERTIES,
+      },
+      required: ['domain'],
+    },
+  },
+  {
+    name: 'semrush_domain_pla_keywords',
+    description: 'Get the keywords that trigger a domain\'s Google Shopping product listing ads',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        domain: {
+          type: 'string',
+          description: 'Domain name to analyze (e.g., "example.com")',
+        },
+        database: {
+          type: 'string',
+          description: 'Database to use (e.g., "us", "uk", "ca", etc.)',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of keywords to return',
+        },
+        ...LIST_PROPERTIES,
+        ...FILTER_PROPERTIES,
+        ...COMMON_PROPERTIES,
+      },
+      required: ['domain'],
+    },
+  },
+  {
+    name: 'semrush_pla_competitors',
+    description: 'Get the domains competing with a domain in Google Shopping product listing ads',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        domain: {
+          type: 'string',
+          description: 'Domain name to analyze (e.g., "example.com")',
+        },
+        database: {
+          type: 'string',
+          description: 'Database to use (e.g., "us", "uk", "ca", etc.)',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of competitors to return',
+        },
+        ...LIST_PROPERTIES,
+        ...FILTER_PROPERTIES,
+        ...COMMON_PROPERTIES,
+      },
+      required: ['domain'],
+    },
+  },
+  {
+    name: 'semrush_competitors',
+    description: 'Get competitors for a specific domain in organic search',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        domain: {
+          type: 'string',
+          description: 'Domain name to analyze (e.g., "example.com")',
+        },
+        database: {
+          type: 'string',
+          description: 'Database to use (e.g., "us", "uk", "ca", etc.)',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of competitors to return',
+        },
+        ...LIST_PROPERTIES,
+        ...FILTER_PROPERTIES,
+        ...COMMON_PROPERTIES,
+      },
+      required: ['domain'],
+    },
+  },
+  {
+    name: 'semrush_keyword_gap',
+    description: 'Compare keywords across a domain and up to four competitors, with each domain\'s position side by side (80 API units per line)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        domain: {
+          type: 'string',
+          description: 'Your domain (e.g., "example.com")',
+        },
+        competitors: {
+          type: 'array',
+          items: {
+            type: 'string',
+          },
+          description: 'Competitor domains to compare against (1-4)',
+        },
+        mode: {
+          type: 'string',
+          enum: ['shared', 'missing', 'weak', 'strong', 'unique'],
+          description: 'shared: all domains rank; missing: all competitors rank but you don\'t; weak: you rank lower than all competitors; strong: you rank higher than all competitors; unique: only you rank (default "missing")',
+        },
+        type: {
+          type: 'string',
+          enum: ['organic', 'paid'],
+          description: 'Compare organic or paid keywords (default "organic")',
+        },
+        database: {
+          type: 'string',
+          description: 'Database to use (e.g., "us", "uk", "ca", etc.)',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of keywords to return',
+        },
+        ...LIST_PROPERTIES,
+        ...FILTER_PROPERTIES,
+        ...COMMON_PROPERTIES,
+      },
+      required: ['domain', 'competitors'],
+    },
+  },
+  {
+    name: 'semrush_backlinks',
+    description: 'Get backlinks for a specific domain or URL',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        target: {
+          type: 'string',
+          description: 'Domain or URL to analyze backlinks for',
+        },
+        ...TARGET_PROPERTIES,
+        limit: {
+          type: 'number',
+          description: 'Maximum number of backlinks to return',
+        },
+        ...LIST_PROPERTIES,
+        ...COMMON_PROPERTIES,
+      },
+      required: ['target'],
+    },
+  },
+  {
+    name: 'semrush_backlinks_domains',
+    description: 'Get referring domains for a specific domain or URL',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        target: {
+          type: 'string',
+          description: 'Domain or URL to analyze referring domains for',
+        },
+        ...TARGET_PROPERTIES,
+        limit: {
+          type: 'number',
+          description: 'Maximum number of referring domains to return',
+        },
+        ...LIST_PROPERTIES,
+        ...COMMON_PROPERTIES,
+      },
+      required: ['target'],
+    },
+  },
+  {
+    name: 'semrush_backlinks_comparison',
+    description: 'Compare backlink profiles side by side: authority score, backlinks, referring domains and IPs for each target',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        targets: {
+          type: 'array',
+          items: {
+            type: 'string',
+          },
+          description: 'Domains or URLs to compare (1-200). Each target type is inferred from the target',
+        },
+        ...COMMON_PROPERTIES,
+      },
+      required: ['targets'],
+    },
+  },
+  {
+    name: 'semrush_backlink_gap',
+    description: 'Find referring domains that link to competitors but not to your target, sorted by opportunity (40 API units per referring domain scanned)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        target: {
+          type: 'string',
+          description: 'Your domain or URL',
+        },
+        ...TARGET_PROPERTIES,
+        competitors: {
+          type: 'array',
+          items: {
+            type: 'string',
+          },
+          description: 'Competitor domains or URLs (1-4). Each target type is inferred from the competitor',
+        },
+        min_competitors: {
+          type: 'number',
+          description: 'Only return referring domains linking to at least this many competitors (default 1)',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of referring domains to scan before the gap is computed',
+        },
+        ...LIST_PROPERTIES,
+        ...COMMON_PROPERTIES,
+      },
+      required: ['target', 'competitors'],
+    },
+  },
+  {
+    name: 'semrush_backlinks_overview',
+    description: 'Get a backlink profile summary for a domain or URL: authority score and counts of backlinks, referring domains, IPs and link types',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        target: {
+          type: 'string',
+          description: 'Domain or URL to summarize backlinks for',
+        },
+        ...TARGET_PROPERTIES,
+        ...COMMON_PROPERTIES,
+      },
+      required: ['target'],
+    },
+  },
+  {
+    name: 'semrush_backlinks_anchors',
+    description: 'Get the anchor texts used in backlinks to a domain or URL',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        target: {
+          type: 'string',
+          description: 'Domain or URL to analyze anchor texts for',
+        },
+        ...TARGET_PROPERTIES,
+        limit: {
+          type: 'number',
+          description: 'Maximum number of anchors to return',
+        },
+        ...LIST_PROPERTIES,
+        ...COMMON_PROPERTIES,
+      },
+      required: ['target'],
+    },
+  },
+  {
+    name: 'semrush_backlinks_tld',
+    description: 'Get the distribution of referring domains by top-level domain',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        target: {
+          type: 'string',
+          description: 'Domain or URL to analyze referring TLDs for',
+        },
+        ...TARGET_PROPERTIES,
+        limit: {
+          type: 'number',
+          description: 'Maximum number of TLDs to return',
+        },
+        ...LIST_PROPERTIES,
+        ...COMMON_PROPERTIES,
+      },
+      required: ['target'],
+    },
+  },
+  {
+    name: 'semrush_backlinks_geo',
+    description: 'Get the distribution of referring domains by country',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        target: {
+          type: 'string',
+          description: 'Domain or URL to analyze referring countries for',
+        },
+        ...TARGET_PROPERTIES,
+        limit: {
+          type: 'number',
+          description: 'Maximum number of countries to return',
+        },
+        ...LIST_PROPERTIES,
+        ...COMMON_PROPERTIES,
+      },
+      required: ['target'],
+    },
+  },
+  {
+    name: 'semrush_backlinks_pages',
+    description: 'Get the pages of a domain that attract the most backlinks',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        target: {
+          type: 'string',
+          description: 'Domain to list indexed pages for',
+        },
+        ...TARGET_PROPERTIES,
+        limit: {
+          type: 'number',
+          description: 'Maximum number of pages to return',
+        },
+        ...LIST_PROPERTIES,
+        ...COMMON_PROPERTIES,
+      },
+      required: ['target'],
+    },
+  },
+  {
+    name: 'semrush_backlinks_historical',
+    description: 'Get the monthly history of backlink and referring domain counts for a domain or URL',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        target: {
+          type: 'string',
+          description: 'Domain or URL to get backlink history for',
+        },
+        ...TARGET_PROPERTIES,
+        limit: {
+          type: 'number',
+          description: 'Maximum number of months to return',
+        },
+        ...LIST_PROPERTIES,
+        ...COMMON_PROPERTIES,
+      },
+      required: ['target'],
+    },
+  },
+  {
+    name: 'semrush_backlinks_categories',
+    description: 'Get the topic categories of the domains linking to a domain or URL',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        target: {
+          type: 'string',
+          description: 'Domain or URL to categorize referring domains for',
+        },
+        ...TARGET_PROPERTIES,
+        ...COMMON_PROPERTIES,
+      },
+      required: ['target'],
+    },
+  },
+  {
+    name: 'semrush_keyword_overview',
+    description: 'Get overview data for a specific keyword',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        keyword: {
+          type: 'string',
+          description: 'Keyword to analyze',
+        },
+        database: {
+          type: 'string',
+          description: 'Database to use (e.g., "us", "uk", "ca", etc.)',
+        },
+        ...COMMON_PROPERTIES,
+      },
+      required: ['keyword'],
+    },
+  },
+  {
+    name: 'semrush_related_keywords',
+    description: 'Get related keywords for a specific keyword',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        keyword: {
+          type: 'string',
+          description: 'Keyword to find related terms for',
+        },
+        database: {
+          type: 'string',
+          description: 'Database to use (e.g., "us", "uk", "ca", etc.)',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of related keywords to return',
+        },
+        ...LIST_PROPERTIES,
+        ...FILTER_PROPERTIES,
+        ...COMMON_PROPERTIES,
+      },
+      required: ['keyword'],
+    },
+  },
+  {
+    name: 'semrush_keyword_overview_single_db',
+    description: 'Get detailed overview data for a keyword from a specific database (10 API units per line)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        keyword: {
+          type: 'string',
+          description: 'Keyword to analyze',
+        },
+        database: {
+          type: 'string',
+          description: 'Database to use (e.g., "us", "uk", "ca", etc.)',
+        },
+        date: {
+          type: 'string',
+          description: 'Historical monthly snapshot to read, as YYYY-MM (defaults to current data)',
+        },
+        ...COMMON_PROPERTIES,
+      },
+      required: ['keyword', 'database'],
+    },
+  },
+  {
+    name: 'semrush_batch_keyword_overview',
+    description: 'Analyze up to 100 keywords at once in a specific database (10 API units per line)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        keywords: {
+          type: 'array',
+          items: {
+            type: 'string',
+          },
+          description: 'Array of keywords to analyze (max 100)',
+        },
+        database: {
+          type: 'string',
+          description: 'Database to use (e.g., "us", "uk", "ca", etc.)',
+        },
+        date: {
+          type: 'string',
+          description: 'Historical monthly snapshot to read, as YYYY-MM (defaults to current data)',
+        },
+        ...COMMON_PROPERTIES,
+      },
+      required: ['keywords', 'database'],
+    },
+  },
+  {
+    name: 'semrush_keyword_organic_results',
+    description: 'Get domains ranking in Google\'s top 100 for a keyword (10 API units per line)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        keyword: {
+          type: 'string',
+          description: 'Keyword to analyze',
+        },
+        database: {
+          type: 'string',
+          description: 'Database to use (e.g., "us", "uk", "ca", etc.)',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of results to return',
+        },
+        ...LIST_PROPERTIES,
+        ...COMMON_PROPERTIES,
+      },
+      required: ['keyword', 'database'],
+    },
+  },
+  {
+    name: 'semrush_keyword_paid_results',
+    description: 'Get domains in Google\'s paid search results for a keyword (20 API units per line)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        keyword: {
+          type: 'string',
+          description: 'Keyword to analyze',
+        },
+        database: {
+          type: 'string',
+          description: 'Database to use (e.g., "us", "uk", "ca", etc.)',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of results to return',
+        },
+        ...LIST_PROPERTIES,
+        ...COMMON_PROPERTIES,
+      },
+      required: ['keyword', 'database'],
+    },
+  },
+  {
+    name: 'semrush_keyword_ads_history',
+    description: 'Get domains that bid on a keyword in the last 12 months (100 API units per line)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        keyword: {
+          type: 'string',
+          description: 'Keyword to analyze',
+        },
+        database: {
+          type: 'string',
+          description: 'Database to use (e.g., "us", "uk", "ca", etc.)',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of results to return',
+        },
+        ...LIST_PROPERTIES,
+        ...COMMON_PROPERTIES,
+      },
+      required: ['keyword', 'database'],
+    },
+  },
+  {
+    name: 'semrush_broad_match_keywords',
+    description: 'Get broad matches and alternate search queries for a keyword (20 API units per line)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        keyword: {
+          type: 'string',
+          description: 'Keyword to analyze',
+        },
+        database: {
+          type: 'string',
+          description: 'Database to use (e.g., "us", "uk", "ca", etc.)',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of results to return',
+        },
+        ...LIST_PROPERTIES,
+        ...FILTER_PROPERTIES,
+        ...COMMON_PROPERTIES,
+      },
+      required: ['keyword', 'database'],
+    },
+  },
+  {
+    name: 'semrush_phrase_questions',
+    description: 'Get question-based keywords related to a term (40 API units per line)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        keyword: {
+          type: 'string',
+          description: 'Keyword to analyze',
+        },
+        database: {
+          type: 'string',
+          description: 'Database to use (e.g., "us", "uk", "ca", etc.)',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of results to return',
+        },
+        ...LIST_PROPERTIES,
+        ...FILTER_PROPERTIES,
+        ...COMMON_PROPERTIES,
+      },
+      required: ['keyword', 'database'],
+    },
+  },
+  {
+    name: 'semrush_keyword_difficulty',
+    description: 'Get difficulty index for ranking in Google\'s top 10 (50 API units per line)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        keywords: {
+          type: 'array',
+          items: {
+            type: 'string',
+          },
+          description: 'Array of keywords to analyze (max 100)',
+        },
+        database: {
+          type: 'string',
+          description: 'Database to use (e.g., "us", "uk", "ca", etc.)',
+        },
+        ...COMMON_PROPERTIES,
+      },
+      required: ['keywords', 'database'],
+    },
+  },
+  {
+    name: 'semrush_traffic_summary',
+    description: 'Get traffic summary data for domains: visits, unique visitors, pages per visit, time on site and bounce rate (requires .Trends API access)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        domains: {
+          type: 'array',
+          items: {
+            type: 'string',
+          },
+          description: 'Array of domains to analyze traffic for',
+        },
+        country: {
+          type: 'string',
+          description: 'Country code (e.g., "us", "uk", "ca", etc.)',
+        },
+        granularity: {
+          type: 'string',
+          enum: ['monthly', 'daily'],
+          description: 'Monthly totals or daily figures for each month (default "monthly")',
+        },
+        ...TRENDS_PROPERTIES,
+        ...COMMON_PROPERTIES,
+      },
+      required: ['domains'],
+    },
+  },
+  {
+    name: 'semrush_traffic_sources',
+    description: 'Get traffic sources data for a domain (requires .Trends API access)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        domain: {
+          type: 'string',
+          description: 'Domain to analyze traffic sources for',
+        },
+        country: {
+          type: 'string',
+          description: 'Country code (e.g., "us", "uk", "ca", etc.)',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of rows to return per month',
+        },
+        ...LIST_PROPERTIES,
+        ...TRENDS_PROPERTIES,
+        ...COMMON_PROPERTIES,
+      },
+      required: ['domain'],
+    },
+  },
+  {
+    name: 'semrush_traffic_destinations',
+    description: 'Get the domains visitors go to after leaving a domain (requires .Trends API access)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        domain: {
+          type: 'string',
+          description: 'Domain to analyze outgoing traffic for',
+        },
+        country: {
+          type: 'string',
+          description: 'Country code (e.g., "us", "uk", "ca", etc.)',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of rows to return per month',
+        },
+        ...LIST_PROPERTIES,
+        ...TRENDS_PROPERTIES,
+        ...COMMON_PROPERTIES,
+      },
+      required: ['domain'],
+    },
+  },
+  {
+    name: 'semrush_traffic_top_pages',
+    description: 'Get the most visited pages of a domain (requires .Trends API access)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        domain: {
+          type: 'string',
+          description: 'Domain to list top pages for',
+        },
+        country: {
+          type: 'string',
+          description: 'Country code (e.g., "us", "uk", "ca", etc.)',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of rows to return per month',
+        },
+        ...LIST_PROPERTIES,
+        ...TRENDS_PROPERTIES,
+        ...COMMON_PROPERTIES,
+      },
+      required: ['domain'],
+    },
+  },
+  {
+    name: 'semrush_traffic_geo',
+    description: 'Get the distribution of a domain\'s traffic by country (requires .Trends API access)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        domain: {
+          type: 'string',
+          description: 'Domain to analyze visitor countries for',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of rows to return per month',
+        },
+        ...LIST_PROPERTIES,
+        ...TRENDS_PROPERTIES,
+        ...COMMON_PROPERTIES,
+      },
+      required: ['domain'],
+    },
+  },
+  {
+    name: 'semrush_traffic_subdomains',
+    description: 'Get the traffic of each subdomain of a domain (requires .Trends API access)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        domain: {
+          type: 'string',
+          description: 'Domain to analyze subdomain traffic for',
+        },
+        country: {
+          type: 'string',
+          description: 'Country code (e.g., "us", "uk", "ca", etc.)',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of rows to return per month',
+        },
+        ...LIST_PROPERTIES,
+        ...TRENDS_PROPERTIES,
+        ...COMMON_PROPERTIES,
+      },
+      required: ['domain'],
+    },
+  },
+  {
+    name: 'semrush_audience_overlap',
+    description: 'Get how much of their audience domains share (requires .Trends API access)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        domains: {
+          type: 'array',
+          items: {
+            type: 'string',
+          },
+          description: 'Array of 2-5 domains to compare audiences for',
+        },
+        country: {
+          type: 'string',
+          description: 'Country code (e.g., "us", "uk", "ca", etc.)',
+        },
+        ...TRENDS_PROPERTIES,
+        ...COMMON_PROPERTIES,
+      },
+      required: ['domains'],
+    },
+  },
+  {
+    name: 'semrush_traffic_accuracy',
+    description: 'Get how reliable the traffic estimates for domains are (requires .Trends API access)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        domains: {
+          type: 'array',
+          items: {
+            type: 'string',
+          },
+          description: 'Array of domains to check estimate accuracy for',
+        },
+        country: {
+          type: 'string',
+          description: 'Country code (e.g., "us", "uk", "ca", etc.)',
+        },
+        ...TRENDS_PROPERTIES,
+        ...COMMON_PROPERTIES,
+      },
+      required: ['domains'],
+    },
+  },
+  {
+    name: 'semrush_projects_list',
+    description: 'List the Semrush projects of the account, with their IDs and enabled tools',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        ...COMMON_PROPERTIES,
+      },
+    },
+  },
+  {
+    name: 'semrush_tracking_report',
+    description: 'Read a Position Tracking campaign of a project: overview, rankings by keyword, visibility trend or competitors',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        project_id: {
+          type: 'number',
+          description: 'Project ID (from semrush_projects_list)',
+        },
+        domain: {
+          type: 'string',
+          description: 'Tracked domain (e.g., "example.com") or a domain mask such as "*.example.com/*"',
+        },
+        report: {
+          type: 'string',
+          enum: ['overview', 'rankings', 'visibility', 'competitors'],
+          description: 'Campaign view to read (default "overview")',
+        },
+        date_from: {
+          type: 'string',
+          description: 'First day of the period (YYYY-MM-DD)',
+        },
+        date_to: {
+          type: 'string',
+          description: 'Last day of the period (YYYY-MM-DD)',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of rows to return',
+        },
+        offset: {
+          type: 'number',
+          description: 'Number of rows to skip',
+        },
+        ...COMMON_PROPERTIES,
+      },
+      required: ['project_id', 'domain'],
+    },
+  },
+  {
+    name: 'semrush_tracking_add_keywords',
+    description: 'Add keywords to the Position Tracking campaign of a project',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        project_id: {
+          type: 'number',
+          description: 'Project ID (from semrush_projects_list)',
+        },
+        keywords: {
+          type: 'array',
+          items: {
+            type: 'string',
+          },
+          description: 'Keywords to track (1-100)',
+        },
+        tags: {
+          type: 'array',
+          items: {
+            type: 'string',
+          },
+          description: 'Tags to attach to every added keyword',
+        },
+        ...COMMON_PROPERTIES,
+      },
+      required: ['project_id', 'keywords'],
+    },
+  },
+  {
+    name: 'semrush_tracking_remove_keywords',
+    description: 'Stop tracking keywords in the Position Tracking campaign of a project',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        project_id: {
+          type: 'number',
+          description: 'Project ID (from semrush_projects_list)',
+        },
+        keywords: {
+          type: 'array',
+          items: {
+            type: 'string',
+          },
+          description: 'Keywords to remove (1-100)',
+        },
+        ...COMMON_PROPERTIES,
+      },
+      required: ['project_id', 'keywords'],
+    },
+  },
+  {
+    name: 'semrush_site_audit_projects',
+    description: 'List the projects that have Site Audit set up',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        ...COMMON_PROPERTIES,
+      },
+    },
+  },
+  {
+    name: 'semrush_site_audit_launch',
+    description: 'Start a new Site Audit crawl of a project. Crawls take minutes; poll semrush_site_audit_status until it finishes',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        project_id: {
+          type: 'number',
+          description: 'Project ID (from semrush_site_audit_projects)',
+        },
+        ...COMMON_PROPERTIES,
+      },
+      required: ['project_id'],
+    },
+  },
+  {
+    name: 'semrush_site_audit_status',
+    description: 'Get the Site Audit status of a project: whether a crawl is running and the latest finished snapshot',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        project_id: {
+          type: 'number',
+          description: 'Project ID (from semrush_site_audit_projects)',
+        },
+        ...COMMON_PROPERTIES,
+      },
+      required: ['project_id'],
+    },
+  },
+  {
+    name: 'semrush_site_audit_summary',
+    description: 'Get the errors, warnings and notices of a Site Audit snapshot, with the number of affected pages per issue',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        project_id: {
+          type: 'number',
+          description: 'Project ID (from semrush_site_audit_projects)',
+        },
+        snapshot_id: {
+          type: 'string',
+          description: 'Snapshot ID (default: the latest finished crawl)',
+        },
+        ...COMMON_PROPERTIES,
+      },
+      required: ['project_id'],
+    },
+  },
+  {
+    name: 'semrush_site_audit_issue',
+    description: 'List the pages affected by one Site Audit issue',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        project_id: {
+          type: 'number',
+          description: 'Project ID (from semrush_site_audit_projects)',
+        },
+        issue_id: {
+          type: 'number',
+          description: 'Issue ID (from semrush_site_audit_summary)',
+        },
+        snapshot_id: {
+          type: 'string',
+          description: 'Snapshot ID (default: the latest finished crawl)',
+        },
+        page: {
+          type: 'number',
+          description: 'Page of results to return (default 1)',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of pages to return',
+        },
+        ...COMMON_PROPERTIES,
+      },
+      required: ['project_id', 'issue_id'],
+    },
+  },
+  {
+    name: 'semrush_site_audit_compare',
+    description: 'Compare two Site Audit snapshots and list the issues that got better or worse',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        project_id: {
+          type: 'number',
+          description: 'Project ID (from semrush_site_audit_projects)',
+        },
+        snapshot_from: {
+          type: 'string',
+          description: 'ID of the earlier snapshot',
+        },
+        snapshot_to: {
+          type: 'string',
+          description: 'ID of the later snapshot (default: the latest finished crawl)',
+        },
+        ...COMMON_PROPERTIES,
+      },
+      required: ['project_id', 'snapshot_from'],
+    },
+  },
+  {
+    name: 'semrush_api_units_balance',
+    description: 'Check the remaining API units balance',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        check: {
+          type: 'boolean',
+          description: 'Set to true to check the balance',
+        },
+        ...COMMON_PROPERTIES,
+      },
+      required: ['check'],
+    },
+  },
+  {
+    name: 'semrush_cache_inspect',
+    description: 'List cached Semrush responses with their report type, age and remaining lifetime',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        report_type: {
+          type: 'string',
+          description: 'Only list entries for this report type (e.g., "phrase_kdi", "backlinks")',
+        },
+      },
+    },
+  },
+  {
+    name: 'semrush_cache_invalidate',
+    description: 'Remove cached Semrush responses so the next call fetches fresh data',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        key: {
+          type: 'string',
+          description: 'Cache key of a single entry, as listed by semrush_cache_inspect',
+        },
+        report_type: {
+          type: 'string',
+          description: 'Remove all entries for this report type',
+        },
+        all: {
+          type: 'boolean',
+          description: 'Set to true to remove every cached entry',
+        },
+      },
+    },
+  },
+  {
+    name: 'semrush_cache_warm',
+    description: 'Prefetch reports into the cache by running Semrush tools without returning their data (consumes API units for uncached reports)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        requests: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              tool: {
+                type: 'string',
+                description: 'Name of the Semrush report tool to run (e.g., "semrush_domain_overview"); tools that launch crawls or change projects are refused',
+              },
+              arguments: {
+                type: 'object',
+                description: 'Arguments for the tool',
+              },
+            },
+            required: ['tool', 'arguments'],
+          },
+          description: 'Tool calls to run (max 50)',
+        },
+        refresh: {
+          type: 'boolean',
+          description: 'Fetch fresh data even for reports that are already cached',
+        },
+      },
+      required: ['requests'],
+    },
+  },
+  {
+    name: 'semrush_units_usage',
+    description: 'Show API units spent and remaining in the session, daily and process budgets',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+  },
+];
+
+// Input validation schemas
+const DomainParams = z.object({
+  domain: z.string(),
+  database: z.string().optional().default('us'),
+});
+
+const UrlParams = z.object({
+  url: z.string().url(),
+  database: z.string().optional().default('us'),
+});
+
+const TargetParams = z.object({
+  target: z.string(),
+  target_type: z.enum(TARGET_TYPES).optional(),
+}).transform(({ target, target_type }) => normalizeTarget(target, target_type));
+
+const KeywordParams = z.object({
+  keyword: z.string(),
+  database: z.string().optional().default('us'),
+});
+
+const PositionChangesParams = z.object({
+  changes: z.array(z.enum(POSITION_CHANGES)).min(1).optional().default([...POSITION_CHANGES]),
+  daily: z.boolean().optional().default(false),
+  limit: z.number().int().positive().optional().default(100),
+  filters: z.array(FilterSchema).optional().default([]),
+  sort: SortSchema.optional(),
+});
+
+const SnapshotParams = z.object({
+  date: z.string().optional(),
+});
+
+const DomainHistoryParams = z.object({
+  domain: z.string(),
+  database: z.string().optional().default('us'),
+  limit: z.number().int().positive().optional(),
+  date_from: z.string().optional(),
+  date_to: z.string().optional(),
+});
+
+const KeywordGapParams = z.object({
+  domain: z.string(),
+  competitors: z.array(z.string()).min(1).max(MAX_GAP_DOMAINS - 1),
+  mode: z.enum(GAP_MODES).optional().default('missing'),
+  type: z.enum(GAP_TYPES).optional().default('organic'),
+  database: z.string().optional().default('us'),
+}).refine(params => new Set([params.domain, ...params.competitors]).size === params.competitors.length + 1, {
+  message: 'Domains to compare must be distinct',
+});
+
+const BacklinksComparisonParams = z.object({
+  targets: z.array(z.string()).min(1).max(MAX_COMPARISON_TARGETS),
+});
+
+const BacklinkGapParams = z.object({
+  competitors: z.array(z.string()).min(1).max(MAX_BACKLINK_GAP_COMPETITORS),
+  min_competitors: z.number().int().positive().optional().default(1),
+});
+
+const ListParams = z.object({
+  limit: z.number().int().positive().optional(),
+  offset: z.number().int().nonnegative().optional(),
+  cursor: z.string().optional(),
+  auto_page: z.boolean().optional().default(false),
+  max_rows: z.number().int().positive().max(100000).optional().default(1000),
+  max_units: z.number().nonnegative().optional(),
+  filters: z.array(FilterSchema).optional().default([]),
+  sort: SortSchema.optional(),
+});
+
+const TrafficDomainsParams = z.object({
+  domains: z.array(z.string()),
+  country: z.string().optional().default('us'),
+});
+
+const AudienceOverlapParams = TrafficDomainsParams.extend({
+  domains: z.array(z.string()).min(2).max(5),
+});
+
+const TrendsParams = z.object({
+  date_from: z.string().optional(),
+  date_to: z.string().optional(),
+  device_type: z.enum(TRENDS_DEVICE_TYPES).optional().default('all'),
+  granularity: z.enum(TRENDS_GRANULARITIES).optional().default('monthly'),
+});
+
+const TrafficDomainParams = z.object({
+  domain: z.string(),
+  country: z.string().optional().default('us'),
+});
+
+const TrackingReportParams = z.object({
+  project_id: z.number().int().positive(),
+  domain: z.string(),
+  report: z.enum(Object.keys(TRACKING_REPORTS) as [TrackingView, ...TrackingView[]]).optional().default('overview'),
+  date_from: z.string().optional(),
+  date_to: z.string().optional(),
+  limit: z.number().int().positive().optional(),
+  offset: z.number().int().nonnegative().optional(),
+});
+
+const TrackedKeywordsParams = z.object({
+  project_id: z.number().int().positive(),
+  keywords: z.array(z.string().min(1)).min(1).max(MAX_KEYWORDS_PER_REQUEST),
+  tags: z.array(z.string()).optional(),
+});
+
+const SiteAuditParams = z.object({
+  project_id: z.number().int().positive(),
+  snapshot_id: z.string().optional(),
+});
+
+const SiteAuditIssueParams = SiteAuditParams.extend({
+  issue_id: z.number().int().positive(),
+  page: z.number().int().positive().optional(),
+  limit: z.number().int().positive().optional(),
+});
+
+const SiteAuditCompareParams = z.object({
+  project_id: z.number().int().positive(),
+  snapshot_from: z.string(),
+  snapshot_to: z.string().optional(),
+});
+
+const CheckParams = z.object({
+  check: z.boolean(),
+});
+
+// Additional schemas for batch operations
+const BatchKeywordParams = z.object({
+  keywords: z.array(z.string()),
+  database: z.string().optional().default('us'),
+});
+
+const CacheInspectParams = z.object({
+  report_type: z.string().optional(),
+});
+
+const CacheInvalidateParams = z.object({
+  key: z.string().optional(),
+  report_type: z.string().optional(),
+  all: z.boolean().optional(),
+}).refine(params => params.key || params.report_type || params.all, {
+  message: 'Provide key, report_type, or all: true',
+});
+
+const CacheWarmParams = z.object({
+  requests: z.array(z.object({
+    tool: z.string(),
+    arguments: z.record(z.any()),
+  })).min(1).max(50),
+  refresh: z.boolean().optional().default(false),
+});
+
+const CommonParams = z.object({
+  format: z.enum(OUTPUT_FORMATS).optional().default('json'),
+  columns: z.array(z.string()).min(1).optional(),
+  raw: z.boolean().optional().default(false),
+  timeout_ms: z.number().int().positive().optional(),
+});
+
+type CommonOptions = z.infer<typeof CommonParams>;
+
+// Build a tool result from an API response, as parsed rows in the requested format and columns
+// unless raw output was requested. Responses that aren't a list of rows are returned as JSON.
+// Request metadata follows the data in a separate content block.
+const toolResult = (response: SemrushApiResponse, options: CommonOptions) => {
+  const rows: SemrushRow[] | undefined = response.rows ?? (Array.isArray(response.data) ? response.data : undefined);
+  let text: string;
+  if (options.raw) {
+    text = typeof response.data === 'string' ? response.data : JSON.stringify(response.data);
+  } else if (rows) {
+    text = formatRows(options.columns ? selectColumns(rows, options.columns) : rows, options.format);
+  } else {
+    text = JSON.stringify(response.data);
+  }
+  return {
+    content: [
+      { type: 'text', text },
+      { type: 'text', text: JSON.stringify({ meta: response.meta }) },
+    ],
+  };
+};
+
+// Response standing in for a report that matched no rows
+const emptyResponse = (retries = 0): SemrushApiResponse => ({
+  data: '',
+  status: 200,
+  headers: {},
+  rows: [],
+  meta: { retries, cached: false, unitsSpent: 0 },
+});
+
+// Helper function to handle API errors consistently
+const handleApiError = (error: unknown, options: CommonOptions = CommonParams.parse({})) => {
+  // An empty report is a valid answer, not a failure
+  if (error instanceof SemrushNothingFoundError) {
+    return toolResult(emptyResponse(error.retries), options);
+  }
+
+  // Arguments that were rejected before anything was sent to Semrush
+  if (error instanceof InvalidArgumentError || error instanceof z.ZodError) {
+    const message = error instanceof z.ZodError
+      ? error.issues.map(issue => `${issue.path.join('.') || 'arguments'}: ${issue.message}`).join('; ')
+      : error.message;
+    return {
+      isError: true,
+      content: [
+        {
+          type: 'text',
+          text: `Invalid arguments: ${message}`,
+        },
+      ],
+    };
+  }
+
+  if (error instanceof SemrushApiError) {
+    const code = error.code !== undefined ? ` (Semrush error ${error.code})` : '';
+    const hint = getErrorHint(error.code);
+    const retries = error.retries > 0 ? `. Failed after ${error.retries} retries` : '';
+    return {
+      isError: true,
+      content: [
+        {
+          type: 'text',
+          text: `Error: ${error.message}${code}. Status: ${error.status}. Category: ${error.category}${retries}${hint ? `. ${hint}` : ''}`,
+        },
+      ],
+    };
+  }
+
+  return {
+    isError: true,
+    content: [
+      {
+        type: 'text',
+        text: `Unexpected error: ${(error as Error).message || 'Unknown error'}`,
+      },
+    ],
+  };
+};
+
+// Fetch a list report honouring the paging arguments of the tool call
+const paginateReport = (
+  toolName: string,
+  reportType: string,
+  args: Record<string, any>,
+  fetchPage: (page: ListOptions) => Promise<SemrushApiResponse>
+): Promise<SemrushApiResponse> => {
+  const { limit, offset, cursor, auto_page, max_rows, max_units, filters, sort } = ListParams.parse(args);
+  return paginate(fetchPage, {
+    tool: toolName,
+    args,
+    filter: compileFilters(reportType, filters),
+    sort: sort ? compileSort(reportType, sort) : undefined,
+    limit,
+    offset,
+    cursor,
+    autoPage: auto_page,
+    maxRows: max_rows,
+    maxUnits: max_units,
+    unitsPerLine: getUnitsPerLine(reportType),
+  });
+};
+
+// Echo the normalized target a backlinks report was queried with in the response meta
+const withTarget = async (target: BacklinkTarget, request: Promise<SemrushApiResponse>): Promise<SemrushApiResponse> => {
+  const response = await request;
+  response.meta.target = target.target;
+  response.meta.targetType = target.targetType;
+  return response;
+};
+
+// Fetch a .Trends report for every month in the requested date range
+const trendsReport = (
+  args: Record<string, any>,
+  fetchMonth: (query: TrendsQuery) => Promise<SemrushApiResponse>
+): Promise<SemrushApiResponse> => {
+  const { date_from, date_to, device_type, granularity } = TrendsParams.parse(args);
+  return fetchTrendsMonths(
+    trendsMonths(date_from, date_to),
+    date => fetchMonth({ date, deviceType: device_type, granularity })
+  );
+};
+
+// Fetch a .Trends list report for each month of the requested range, paging within each month
+const trendsListReport = (
+  toolName: string,
+  reportType: string,
+  args: Record<string, any>,
+  fetchMonth: (query: TrendsQuery, page: ListOptions) => Promise<SemrushApiResponse>
+): Promise<SemrushApiResponse> => {
+  const { date_from, date_to, device_type, granularity } = TrendsParams.parse(args);
+  const { limit, offset, cursor, auto_page, max_rows, max_units } = ListParams.parse(args);
+  return fetchTrendsMonths(
+    trendsMonths(date_from, date_to),
+    date => paginate(page => fetchMonth({ date, deviceType: device_type, granularity }, page), {
+      tool: toolName,
+      args,
+      limit,
+      offset,
+      cursor,
+      autoPage: auto_page,
+      maxRows: max_rows,
+      maxUnits: max_units,
+      unitsPerLine: getUnitsPerLine(reportType),
+    })
+  );
+};
+
+// Run a Semrush report tool, returning undefined for unknown tool names
+const runReportTool = async (
+  api: SemrushApiClient,
+  toolName: string,
+  args: Record<string, any>
+): Promise<SemrushApiResponse | undefined> => {
+  switch (toolName) {
+    case 'semrush_domain_overview': {
+      const { domain, database } = DomainParams.parse(args);
+      const { date } = SnapshotParams.parse(args);
+      return api.getDomainOverview(domain, database, date && toDisplayDate(date));
+    }
+    
+    case 'semrush_domain_organic_keywords': {
+      const { domain, database } = DomainParams.parse(args);
+      const { date } = SnapshotParams.parse(args);
+      const displayDate = date && toDisplayDate(date);
+      return paginateReport(toolName, 'domain_organic', args, page => api.getDomainOrganicKeywords(domain, database, page, displayDate));
+    }
+    
+    case 'semrush_position_changes': {
+      const { domain, database } = DomainParams.parse(args);
+      const { changes, daily, limit, filters, sort } = PositionChangesParams.parse(args);
+      const page = {
+        limit,
+        filter: compileFilters('domain_organic', filters),
+        sort: sort ? compileSort('domain_organic', sort) : undefined,
+      };
+      const selected = [...new Set(changes)];
+      const responses: SemrushApiResponse[] = [];
+      for (const change of selected) {
+        try {
+          responses.push(await api.getDomainPositionChanges(domain, database, change, daily, page));
+        } catch (error) {
+          // No keywords with one kind of change shouldn't hide the others
+          if (!(error instanceof SemrushNothingFoundError)) throw error;
+          responses.push(emptyResponse(error.retries));
+        }
+      }
+      return combineResponses(responses, selected.map(change => ({ change })));
+    }
+    
+    case 'semrush_domain_history': {
+      const { domain, database, limit, date_from, date_to } = DomainHistoryParams.parse(args);
+      if (limit && (date_from || date_to)) {
+        throw new SnapshotDateError('limit cannot be combined with date_from or date_to: months are fetched most recent first, so a limit would cut off the range');
+      }
+      const from = date_from && toSnapshotMonth(toDisplayDate(date_from));
+      const to = date_to && toSnapshotMonth(toDisplayDate(date_to));
+      // Rows come most recent first, so covering date_from means fetching every month since then
+      const response = await api.getDomainRankHistory(domain, database, {
+        limit: from ? countMonths(from, latestSnapshotMonth()) : limit,
+      });
+      response.rows = response.rows
+        ?.map(row => ({ ...row, date: typeof row.date === 'string' ? toSnapshotMonth(row.date) : row.date }))
+        .filter(row => (!from || String(row.date) >= from) && (!to || String(row.date) <= to));
+      return response;
+    }
+    
+    case 'semrush_domain_paid_keywords': {
+      const { domain, database } = DomainParams.parse(args);
+      return paginateReport(toolName, 'domain_adwords', args, page => api.getDomainPaidKeywords(domain, database, page));
+    }
+    
+    case 'semrush_domain_top_pages': {
+      const { domain, database } = DomainParams.parse(args);
+      return paginateReport(toolName, 'domain_organic_unique', args, page => api.getDomainOrganicPages(domain, database, page));
+    }
+    
+    case 'semrush_domain_subdomains': {
+      const { domain, database } = DomainParams.parse(args);
+      return paginateReport(toolName, 'domain_organic_subdomains', args, page => api.getDomainOrganicSubdomains(domain, database, page));
+    }
+    
+    case 'semrush_url_organic_keywords': {
+      const { url, database } = UrlParams.parse(args);
+      return paginateReport(toolName, 'url_organic', args, page => api.getUrlOrganicKeywords(url, database, page));
+    }
+    
+    case 'semrush_url_paid_keywords': {
+      const { url, database } = UrlParams.parse(args);
+      return paginateReport(toolName, 'url_adwords', args, page => api.getUrlPaidKeywords(url, database, page));
+    }
+    
+    case 'semrush_domain_ad_copies': {
+      const { domain, database } = DomainParams.parse(args);
+      return paginateReport(toolName, 'domain_adwords_unique', args, page => api.getDomainAdCopies(domain, database, page));
+    }
+    
+    case 'semrush_domain_ads_history': {
+      const { domain, database } = DomainParams.parse(args);
+      return paginateReport(toolName, 'domain_adwords_historical', args, page => api.getDomainAdsHistory(domain, database, page));
+    }
+    
+    case 'semrush_paid_competitors': {
+      const { domain, database } = DomainParams.parse(args);
+      return paginateReport(toolName, 'domain_adwords_adwords', args, page => api.getCompetitorsInPaid(domain, database, page));
+    }
+    
+    case 'semrush_domain_pla_keywords': {
+      const { domain, database } = DomainParams.parse(args);
+      return paginateReport(toolName, 'domain_shopping', args, page => api.getDomainPlaKeywords(domain, database, page));
+    }
+    
+    case 'semrush_pla_competitors': {
+      const { domain, database } = DomainParams.parse(args);
+      return paginateReport(toolName, 'domain_shopping_shopping', args, page => api.getCompetitorsInPla(domain, database, page));
+    }
+    
+    case 'semrush_competitors': {
+      const { domain, database } = DomainParams.parse(args);
+      return paginateReport(toolName, 'domain_organic_organic', args, page => api.getCompetitorsInOrganic(domain, database, page));
+    }
+    
+    case 'semrush_keyword_gap': {
+      const { domain, competitors, mode, type, database } = KeywordGapParams.parse(args);
+      const query = buildGapQuery(domain, competitors, mode, type);
+      const columns = gapExportColumns(query.order.length);
+      const response = await paginateReport(toolName, 'domain_domains', args, page => api.getDomainComparison(query.domains, columns, database, page));
+      response.rows = response.rows && toGapRows(response.rows, query.order);
+      return response;
+    }
+    
+    case 'semrush_backlinks': {
+      const target = TargetParams.parse(args);
+      return withTarget(target, paginateReport(toolName, 'backlinks', args, page => api.getBacklinks(target, page)));
+    }
+    
+    case 'semrush_backlinks_domains': {
+      const target = TargetParams.parse(args);
+      return withTarget(target, paginateReport(toolName, 'backlinks_refdomains', args, page => api.getBacklinksDomains(target, page)));
+    }
+    
+    case 'semrush_backlinks_comparison': {
+      const { targets } = BacklinksComparisonParams.parse(args);
+      return api.getBacklinksComparison(targets.map(target => normalizeTarget(target)));
+    }
+    
+    case 'semrush_backlink_gap': {
+      const target = TargetParams.parse(args);
+      const { competitors, min_competitors } = BacklinkGapParams.parse(args);
+      const targets = [target, ...competitors.map(competitor => normalizeTarget(competitor))];
+      if (new Set(targets.map(({ target }) => target)).size !== targets.length) {
+        throw new TargetValidationError('Target and competitors must be distinct');
+      }
+      const response = await withTarget(target, paginateReport(toolName, 'backlinks_matrix', args, page => api.getBacklinksMatrix(targets, page)));
+      response.rows = response.rows && toBacklinkGapRows(response.rows, targets.map(({ target }) => target), min_competitors);
+      return response;
+    }
+    
+    case 'semrush_backlinks_overview': {
+      const target = TargetParams.parse(args);
+      return withTarget(target, api.getBacklinksOverview(target));
+    }
+    
+    case 'semrush_backlinks_anchors': {
+      const target = TargetParams.parse(args);
+      return withTarget(target, paginateReport(toolName, 'backlinks_anchors', args, page => api.getBacklinksAnchors(target, page)));
+    }
+    
+    case 'semrush_backlinks_tld': {
+      const target = TargetParams.parse(args);
+      return withTarget(target, paginateReport(toolName, 'backlinks_tld', args, page => api.getBacklinksTld(target, page)));
+    }
+    
+    case 'semrush_backlinks_geo': {
+      const target = TargetParams.parse(args);
+      return withTarget(target, paginateReport(toolName, 'backlinks_geo', args, page => api.getBacklinksGeo(target, page)));
+    }
+    
+    case 'semrush_backlinks_pages': {
+      const target = TargetParams.parse(args);
+      return withTarget(target, paginateReport(toolName, 'backlinks_pages', args, page => api.getBacklinksPages(target, page)));
+    }
+    
+    case 'semrush_backlinks_historical': {
+      const target = TargetParams.parse(args);
+      return withTarget(target, paginateReport(toolName, 'backlinks_historical', args, page => api.getBacklinksHistorical(target, page)));
+    }
+    
+    case 'semrush_backlinks_categories': {
+      const target = TargetParams.parse(args);
+      return withTarget(target, api.getBacklinksCategories(target));
+    }
+    
+    case 'semrush_keyword_overview': {
+      const { keyword, database } = KeywordParams.parse(args);
+      return api.getKeywordOverview(keyword, database);
+    }
+    
+    case 'semrush_related_keywords': {
+      const { keyword, database } = KeywordParams.parse(args);
+      return paginateReport(toolName, 'phrase_related', args, page => api.getRelatedKeywords(keyword, database, page));
+    }
+    
+    case 'semrush_keyword_overview_single_db': {
+      const { keyword, database } = KeywordParams.parse(args);
+      const { date } = SnapshotParams.parse(args);
+      return api.getKeywordOverviewSingleDb(keyword, database, date && toDisplayDate(date));
+    }
+    
+    case 'semrush_batch_keyword_overview': {
+      const { keywords, database } = BatchKeywordParams.parse(args);
+      const { date } = SnapshotParams.parse(args);
+      return api.getBatchKeywordOverview(keywords, database, date && toDisplayDate(date));
+    }
+    
+    case 'semrush_keyword_organic_results': {
+      const { keyword, database } = KeywordParams.parse(args);
+      return paginateReport(toolName, 'phrase_organic', args, page => api.getKeywordOrganicResults(keyword, database, page));
+    }
+    
+    case 'semrush_keyword_paid_results': {
+      const { keyword, database } = KeywordParams.parse(args);
+      return paginateReport(toolName, 'phrase_adwords', args, page => api.getKeywordPaidResults(keyword, database, page));
+    }
+    
+    case 'semrush_keyword_ads_history': {
+      const { keyword, database } = KeywordParams.parse(args);
+      return paginateReport(toolName, 'phrase_adwords_historical', args, page => api.getKeywordAdsHistory(keyword, database, page));
+    }
+    
+    case 'semrush_broad_match_keywords': {
+      const { keyword, database } = KeywordParams.parse(args);
+      return paginateReport(toolName, 'phrase_fullsearch', args, page => api.getBroadMatchKeywords(keyword, database, page));
+    }
+    
+    case 'semrush_phrase_questions': {
+      const { keyword, database } = KeywordParams.parse(args);
+      return paginateReport(toolName, 'phrase_questions', args, page => api.getPhraseQuestions(keyword, database, page));
+    }
+    
+    case 'semrush_keyword_difficulty': {
+      const { keywords, database } = BatchKeywordParams.parse(args);
+      return api.getKeywordDifficulty(keywords, database);
+    }
+    
+    case 'semrush_traffic_summary': {
+      const { domains, country } = TrafficDomainsParams.parse(args);
+      return trendsReport(args, query => api.getTrafficSummary(domains, country, query));
+    }
+    
+    case 'semrush_traffic_sources': {
+      const { domain, country } = TrafficDomainParams.parse(args);
+      return trendsListReport(toolName, 'trends_sources', args, (query, page) => api.getTrafficSources(domain, country, query, page));
+    }
+    
+    case 'semrush_traffic_destinations': {
+      const { domain, country } = TrafficDomainParams.parse(args);
+      return trendsListReport(toolName, 'trends_destinations', args, (query, page) => api.getTrafficDestinations(domain, country, query, page));
+    }
+    
+    case 'semrush_traffic_top_pages': {
+      const { domain, country } = TrafficDomainParams.parse(args);
+      return trendsListReport(toolName, 'trends_toppages', args, (query, page) => api.getTrafficTopPages(domain, country, query, page));
+    }
+    
+    case 'semrush_traffic_geo': {
+      const { domain } = TrafficDomainParams.parse(args);
+      return trendsListReport(toolName, 'trends_geo', args, (query, page) => api.getTrafficGeo(domain, query, page));
+    }
+    
+    case 'semrush_traffic_subdomains': {
+      const { domain, country } = TrafficDomainParams.parse(args);
+      return trendsListReport(toolName, 'trends_subdomains', args, (query, page) => api.getTrafficSubdomains(domain, country, query, page));
+    }
+    
+    case 'semrush_audience_overlap': {
+      const { domains, country } = AudienceOverlapParams.parse(args);
+      return trendsReport(args, query => api.getAudienceOverlap(domains, country, query));
+    }
+    
+    case 'semrush_traffic_accuracy': {
+      const { domains, country } = TrafficDomainsParams.parse(args);
+      return trendsReport(args, query => api.getTrafficAccuracy(domains, country, query));
+    }
+    
+    case 'semrush_projects_list': {
+      return api.getProjects();
+    }
+    
+    case 'semrush_tracking_report': {
+      const { project_id, domain, report, date_from, date_to, limit, offset } = TrackingReportParams.parse(args);
+      return api.getTrackingReport(project_id, TRACKING_REPORTS[report], {
+        url: toDomainMask(domain),
+        dateBegin: date_from && toTrackingDate(date_from),
+        dateEnd: date_to && toTrackingDate(date_to),
+      }, { limit, offset });
+    }
+    
+    case 'semrush_site_audit_projects': {
+      return siteAuditProjects(await api.getProjects());
+    }
+    
+    case 'semrush_site_audit_status': {
+      const { project_id } = SiteAuditParams.parse(args);
+      return api.getSiteAuditInfo(project_id);
+    }
+    
+    case 'semrush_site_audit_summary': {
+      const { project_id, snapshot_id } = SiteAuditParams.parse(args);
+      const snapshotId = snapshot_id ?? latestSnapshotId(await api.getSiteAuditInfo(project_id));
+      return api.getSiteAuditSnapshot(project_id, snapshotId);
+    }
+    
+    case 'semrush_site_audit_issue': {
+      const { project_id, snapshot_id, issue_id, page, limit } = SiteAuditIssueParams.parse(args);
+      const snapshotId = snapshot_id ?? latestSnapshotId(await api.getSiteAuditInfo(project_id));
+      return api.getSiteAuditIssue(project_id, snapshotId, issue_id, page, limit);
+    }
+    
+    case 'semrush_site_audit_compare': {
+      const { project_id, snapshot_from, snapshot_to } = SiteAuditCompareParams.parse(args);
+      const snapshotTo = snapshot_to ?? latestSnapshotId(await api.getSiteAuditInfo(project_id));
+      const responses = [
+        await api.getSiteAuditSnapshot(project_id, snapshot_from),
+        await api.getSiteAuditSnapshot(project_id, snapshotTo),
+        await api.getSiteAuditIssueTypes(project_id),
+      ];
+      const [before, after, issueTypes] = responses;
+      return {
+        ...after,
+        data: compareSnapshots(before.data as SnapshotIssues, after.data as SnapshotIssues, issueTitles(issueTypes)),
+        meta: {
+          retries: responses.reduce((total, response) => total + response.meta.retries, 0),
+          cached: responses.every(response => response.meta.cached),
+          unitsSpent: 0,
+        },
+      };
+    }
+    
+    case 'semrush_api_units_balance': {
+      CheckParams.parse(args);
+      return api.getApiUnitsBalance();
+    }
+    
+    default:
+      return undefined;
+  }
+};
+
+// Run a Projects API write tool, returning undefined for other tool names.
+// Kept apart from runReportTool so cache warming and resources can never reach them
+const runProjectWrite = async (
+  api: SemrushApiClient,
+  toolName: string,
+  args: Record<string, any>
+): Promise<SemrushApiResponse | undefined> => {
+  switch (toolName) {
+    case 'semrush_tracking_add_keywords': {
+      const { project_id, keywords, tags } = TrackedKeywordsParams.parse(args);
+      return api.addTrackedKeywords(project_id, keywords.map(keyword => ({ keyword, tags })));
+    }
+    
+    case 'semrush_tracking_remove_keywords': {
+      const { project_id, keywords } = TrackedKeywordsParams.parse(args);
+      return api.removeTrackedKeywords(project_id, keywords);
+    }
+    
+    case 'semrush_site_audit_launch': {
+      const { project_id } = SiteAuditParams.parse(args);
+      return api.launchSiteAudit(project_id);
+    }
+    
+    default:
+      return undefined;
+  }
+};
+
+// Serialize a value as a JSON tool result
+const jsonResult = (value: unknown) => ({
+  content: [{ type: 'text', text: JSON.stringify(value) }],
+});
+
+// Warm the cache by running report tools, without returning their data
+const warmCache = async (
+  sessionApi: SemrushApiClient,
+  requests: Array<{ tool: string; arguments: Record<string, any> }>,
+  refresh: boolean
+) => {
+  const api = sessionApi.withRequestOptions({ bypassCache: refresh });
+  const results = [];
+  
+  for (const { tool, arguments: toolArgs } of requests) {
+    try {
+      const response = await runReportTool(api, tool, toolArgs);
+      if (response) recordToolReport(api.keyId, tool, toolArgs, response);
+      results.push(response
+        ? { tool, status: response.meta.cached ? 'cached' : 'fetched', rows: response.rows?.length }
+        : { tool, status: 'error', error: `Not a report tool: ${tool}` });
+    } catch (error) {
+      results.push({ tool, status: 'error', error: (error as Error).message });
+    }
+  }
+  
+  return results;
+};
+
+// Execute a tool call and build its result
+const callTool = async (sessionApi: SemrushApiClient, toolName: string, args: Record<string, any>) => {
+  let options: CommonOptions | undefined;
+  try {
+    switch (toolName) {
+      case 'semrush_cache_inspect': {
+        const { report_type } = CacheInspectParams.parse(args);
+        return jsonResult(await sessionApi.inspectCache(report_type));
+      }
+      
+      case 'semrush_cache_invalidate': {
+        const { key, report_type } = CacheInvalidateParams.parse(args);
+        const removed = await sessionApi.invalidateCache({ key, reportType: report_type });
+        return jsonResult({ removed });
+      }
+      
+      case 'semrush_cache_warm': {
+        const { requests, refresh } = CacheWarmParams.parse(args);
+        return jsonResult(await warmCache(sessionApi, requests, refresh));
+      }
+      
+      case 'semrush_units_usage': {
+        return jsonResult(sessionApi.getUsage());
+      }
+    }
+    
+    options = CommonParams.parse(args);
+    const api = sessionApi.withRequestOptions({ timeoutMs: options.timeout_ms });
+    const response = await runProjectWrite(api, toolName, args) ?? await runReportTool(api, toolName, args);
+    if (!response) {
+      return {
+        content: [{ type: 'text', text: `Unknown tool: ${toolName}` }],
+        isError: true
+      };
+    }
+    
+    recordToolReport(api.keyId, toolName, args, response);
+    return toolResult(response, options);
+  } catch (error) {
+    logger.error(`Error while executing tool ${toolName}: ${(error as Error).message}`);
+    return handleApiError(error, options);
+  }
+};
+
+// Parse a report resource URI, reporting unknown ones as invalid params
+const resolveResourceUri = (uri: string) => {
+  try {
+    return parseResourceUri(uri);
+  } catch (error) {
+    if (error instanceof ResourceNotFoundError) {
+      throw new McpError(ErrorCode.InvalidParams, error.message);
+    }
+    throw error;
+  }
+};
+
+// Read a report resource through the report tool behind it
+const readResource = async (sessionApi: SemrushApiClient, uri: string) => {
+  const resource = resolveResourceUri(uri);
+
+  let text = '[]';
+  try {
+    const response = await runReportTool(sessionApi, resource.tool, resource.args);
+    if (response) {
+      recordToolReport(sessionApi.keyId, resource.tool, resource.args, response);
+      text = JSON.stringify(response.rows ?? response.data);
+    }
+  } catch (error) {
+    // An empty report is a valid answer, not a failure
+    if (!(error instanceof SemrushNothingFoundError)) {
+      const result = handleApiError(error);
+      const code = error instanceof InvalidArgumentError || error instanceof z.ZodError ? ErrorCode.InvalidParams : ErrorCode.InternalError;
+      throw new McpError(code, result.content[0].text);
+    }
+  }
+
+  return { contents: [{ uri: resource.uri, mimeType: RESOURCE_MIME_TYPE, text }] };
+};
+
+// Create an MCP server with the Semrush tools, prompts and resources registered.
+// Each transport session gets its own instance, since a Server can only be
+// connected to one transport at a time. Sessions without their own API key use
+// the key configured for the process.
+export function createServer(apiKey?: string): Server {
+  const server = new Server(
+    {
+      name: "semrush-mcp-server",
+      version: "1.0.0",
+    },
+    {
+      capabilities: {
+        tools: {},    // We support tools
+        resources: { subscribe: true, listChanged: true }, // We support resources
+        prompts: {}    // We support prompts
+      },
+    }
+  );
+
+  // Client scoped to this session, with its own unit budget
+  const sessionApi = new SemrushApiClient(apiKey, { sessionBudget: createSessionBudget() });
+
+  // Set up request handlers
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: TOOLS,
+  }));
+
+  server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+    prompts: PROMPT_LIST,
+  }));
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    try {
+      return getPrompt(request.params.name, request.params.arguments);
+    } catch (error) {
+      if (error instanceof PromptError) {
+        throw new McpError(ErrorCode.InvalidParams, error.message);
+      }
+      throw error;
+    }
+  });
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+    resources: recentReports.list(sessionApi.keyId),
+  }));
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: RESOURCE_TEMPLATES,
+  }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    logger.info(`Resource read: ${request.params.uri}`);
+    return readResource(sessionApi, request.params.uri);
+  });
+
+  // Resources this session subscribed to, notified whenever another fetch refreshes them
+  const subscriptions = new Set<string>();
+  const notifyError = (error: Error) => logger.debug(`Failed to send resource notification: ${error.message}`);
+  const onUpdated = (account: string, uri: string) => {
+    if (account === sessionApi.keyId && subscriptions.has(uri)) server.sendResourceUpdated({ uri }).catch(notifyError);
+  };
+  const onListChanged = (account: string) => {
+    if (account === sessionApi.keyId) server.sendResourceListChanged().catch(notifyError);
+  };
+  recentReports.on('updated', onUpdated);
+  recentReports.on('listChanged', onListChanged);
+  server.onclose = () => {
+    recentReports.off('updated', onUpdated);
+    recentReports.off('listChanged', onListChanged);
+  };
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscriptions.add(resolveResourceUri(request.params.uri).uri);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(resolveResourceUri(request.params.uri).uri);
+    return {};
+  });
+
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const toolName = request.params.name;
+    const args = request.params.arguments as Record<string, any>;
+    
+    logger.info(`Tool called: ${toolName}`);
+    
+    return callTool(sessionApi, toolName, args ?? {});
+  });
+
+  return server;
+}
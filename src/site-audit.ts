@@ -0,0 +1,101 @@
+// Helpers for Semrush Site Audit snapshots
+import type { SemrushApiResponse } from './semrush-api.js';
+import { InvalidArgumentError } from './semrush-errors.js';
+
+export const ISSUE_SEVERITIES = ['errors', 'warnings', 'notices'] as const;
+export type IssueSeverity = typeof ISSUE_SEVERITIES[number];
+
+// An issue type and the number of pages it affects, as listed in a snapshot
+interface SnapshotIssue {
+  id: number;
+  count: number;
+}
+
+// The parts of a snapshot response the comparison reads
+export type SnapshotIssues = Partial<Record<IssueSeverity, SnapshotIssue[]>>;
+
+// Change in one issue type between two snapshots
+export interface IssueChange {
+  issue_id: number;
+  title?: string;
+  severity: IssueSeverity;
+  before: number;
+  after: number;
+  change: number;
+}
+
+// Error for Site Audit responses that lack the data a tool needs
+export class SiteAuditError extends InvalidArgumentError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SiteAuditError';
+  }
+}
+
+// Index the pages affected per issue of a snapshot, by severity and issue ID
+const countIssues = (snapshot: SnapshotIssues): Map<string, number> => {
+  const counts = new Map<string, number>();
+  for (const severity of ISSUE_SEVERITIES) {
+    for (const issue of snapshot[severity] ?? []) {
+      counts.set(`${severity}:${issue.id}`, issue.count);
+    }
+  }
+  return counts;
+};
+
+/**
+ * Compare two snapshots issue by issue.
+ * Returns the issues whose number of affected pages changed, largest change first, and the
+ * total pages affected per severity in each snapshot. `titles` maps issue IDs to readable titles.
+ */
+export function compareSnapshots(before: SnapshotIssues, after: SnapshotIssues, titles: Map<number, string> = new Map()) {
+  const beforeCounts = countIssues(before);
+  const afterCounts = countIssues(after);
+  const keys = new Set([...beforeCounts.keys(), ...afterCounts.keys()]);
+
+  const changes: IssueChange[] = [...keys]
+    .map(key => {
+      const [severity, id] = key.split(':');
+      const issueId = Number(id);
+      const beforeCount = beforeCounts.get(key) ?? 0;
+      const afterCount = afterCounts.get(key) ?? 0;
+      return {
+        issue_id: issueId,
+        title: titles.get(issueId),
+        severity: severity as IssueSeverity,
+        before: beforeCount,
+        after: afterCount,
+        change: afterCount - beforeCount,
+      };
+    })
+    .filter(issue => issue.change !== 0)
+    .sort((a, b) => Math.abs(b.change) - Math.abs(a.change));
+
+  const totals = (snapshot: SnapshotIssues) => Object.fromEntries(ISSUE_SEVERITIES.map(severity =>
+    [severity, (snapshot[severity] ?? []).reduce((total, issue) => total + issue.count, 0)]
+  ));
+
+  return { totals: { before: totals(before), after: totals(after) }, changes };
+}
+
+// Map issue IDs to titles from the Site Audit issue types response
+export const issueTitles = (response: SemrushApiResponse): Map<number, string> => {
+  const issues = (response.data as { issues?: Array<{ id: number; title: string }> })?.issues ?? [];
+  return new Map(issues.map(issue => [issue.id, issue.title]));
+};
+
+// Snapshot ID of the latest finished crawl, from a Site Audit info response
+export const latestSnapshotId = (response: SemrushApiResponse): string => {
+  const info = response.data as { current_snapshot?: { snapshot_id?: string } };
+  const snapshotId = info?.current_snapshot?.snapshot_id;
+  if (!snapshotId) {
+    throw new SiteAuditError('The project has no finished Site Audit snapshot yet');
+  }
+  return snapshotId;
+};
+
+// Keep only the projects that have Site Audit set up, from a projects list response
+export const siteAuditProjects = (response: SemrushApiResponse): SemrushApiResponse => {
+  const projects = Array.isArray(response.data) ? response.data as Array<{ tools?: Array<{ tool: string }> }> : [];
+  return { ...response, data: projects.filter(project => project.tools?.some(tool => tool.tool === 'siteaudit')) };
+};
@@ -0,0 +1,62 @@
+// Target handling for the Semrush Backlink Analytics reports
+import { InvalidArgumentError } from './semrush-errors.js';
+
+export const TARGET_TYPES = ['root_domain', 'domain', 'url'] as const;
+export type TargetType = typeof TARGET_TYPES[number];
+
+// A normalized target and the target_type it is queried with
+export interface BacklinkTarget {
+  target: string;
+  targetType: TargetType;
+}
+
+// Error for targets that are empty after normalization
+export class TargetValidationError extends InvalidArgumentError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TargetValidationError';
+  }
+}
+
+// Second-level labels used under country-code TLDs, e.g. "co.uk" or "com.au"
+const COUNTRY_SECOND_LEVELS = new Set(['co', 'com', 'net', 'org', 'gov', 'edu', 'ac', 'ne', 'or']);
+
+// Whether a host is a registrable root domain rather than a subdomain
+const isRootDomain = (host: string): boolean => {
+  const labels = host.split('.');
+  if (labels.length <= 2) {
+    return true;
+  }
+  const [tld, secondLevel] = labels.slice(-2).reverse();
+  return labels.length === 3 && tld.length === 2 && COUNTRY_SECOND_LEVELS.has(secondLevel);
+};
+
+/**
+ * Normalize a backlinks target and resolve its target_type.
+ *
+ * The scheme, a leading "www." and trailing slashes are stripped and the host is
+ * lowercased, so "https://www.Example.com/blog/" becomes "example.com/blog". When no
+ * type is given it is inferred: anything with a path or query is a url, a subdomain
+ * is a domain, and everything else is a root_domain.
+ */
+export function normalizeTarget(input: string, targetType?: TargetType): BacklinkTarget {
+  const withoutScheme = input.trim().replace(/^[a-z][a-z0-9+.-]*:\/\//i, '');
+  const pathStart = withoutScheme.search(/[/?#]/);
+  const host = (pathStart === -1 ? withoutScheme : withoutScheme.slice(0, pathStart))
+    .toLowerCase()
+    .replace(/^www\./, '');
+  const path = (pathStart === -1 ? '' : withoutScheme.slice(pathStart)).replace(/\/+$/, '');
+
+  if (host === '') {
+    throw new TargetValidationError(`Invalid target "${input}": expected a domain or URL`);
+  }
+
+  const target = host + path;
+  if (targetType) {
+    return { target, targetType };
+  }
+  if (path !== '') {
+    return { target, targetType: 'url' };
+  }
+  return { target, targetType: isRootDomain(host) ? 'root_domain' : 'domain' };
+}
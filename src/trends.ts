@@ -0,0 +1,70 @@
+// Date ranges and device options for the Semrush .Trends traffic analytics API
+import { latestSnapshotMonth, SnapshotDateError, toDisplayDate, toSnapshotMonth } from './dates.js';
+import { combineResponses } from './pagination.js';
+import type { SemrushApiResponse } from './semrush-api.js';
+
+export const TRENDS_DEVICE_TYPES = ['all', 'desktop', 'mobile'] as const;
+export type TrendsDeviceType = typeof TRENDS_DEVICE_TYPES[number];
+
+export const TRENDS_GRANULARITIES = ['monthly', 'daily'] as const;
+export type TrendsGranularity = typeof TRENDS_GRANULARITIES[number];
+
+// Options for one .Trends request
+export interface TrendsQuery {
+  date?: string; // First day of the month, YYYY-MM-01
+  deviceType?: TrendsDeviceType;
+  granularity?: TrendsGranularity;
+}
+
+// Earliest month of .Trends traffic data
+export const EARLIEST_TRENDS_MONTH = '2017-01';
+
+// Months fetched by one tool call; each month is a separate request
+export const MAX_TRENDS_MONTHS = 12;
+
+// Validate a month and return it as "YYYY-MM"
+const toTrendsMonth = (input: string): string => {
+  const month = toSnapshotMonth(toDisplayDate(input));
+  if (month < EARLIEST_TRENDS_MONTH) {
+    throw new SnapshotDateError(`Traffic data is available from ${EARLIEST_TRENDS_MONTH}, got ${month}`);
+  }
+  return month;
+};
+
+/**
+ * Resolve the months to request, as .Trends dates (YYYY-MM-01).
+ * Without dates this is the latest complete month; with only date_to it is that month;
+ * with date_from it runs from date_from to date_to (default: the latest month).
+ */
+export function trendsMonths(dateFrom?: string, dateTo?: string): string[] {
+  const to = dateTo ? toTrendsMonth(dateTo) : latestSnapshotMonth();
+  const from = dateFrom ? toTrendsMonth(dateFrom) : to;
+  if (from > to) {
+    throw new SnapshotDateError(`date_from ${from} is after date_to ${to}`);
+  }
+
+  const months: string[] = [];
+  let [year, month] = from.split('-').map(Number);
+  for (let current = from; current <= to; current = `${year}-${String(month).padStart(2, '0')}`) {
+    months.push(`${current}-01`);
+    [year, month] = month === 12 ? [year + 1, 1] : [year, month + 1];
+  }
+
+  if (months.length > MAX_TRENDS_MONTHS) {
+    throw new SnapshotDateError(`A date range covers at most ${MAX_TRENDS_MONTHS} months, got ${months.length}`);
+  }
+  return months;
+}
+
+// Fetch a .Trends report for each month and combine the results, tagging each row with its month
+export async function fetchTrendsMonths(
+  months: string[],
+  fetchMonth: (date: string) => Promise<SemrushApiResponse>
+): Promise<SemrushApiResponse> {
+  const responses: SemrushApiResponse[] = [];
+  for (const date of months) {
+    responses.push(await fetchMonth(date));
+  }
+
+  return combineResponses(responses, months.map(date => ({ month: date.slice(0, 7) })));
+}
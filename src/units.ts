@@ -0,0 +1,80 @@
+// Semrush API unit costs
+
+// API units charged per returned line, by report type
+export const REPORT_UNIT_COSTS: Record<string, number> = {
+  domain_ranks: 10,
+  domain_organic: 10,
+  domain_rank_history: 10,
+  domain_adwords: 20,
+  domain_adwords_unique: 40,
+  domain_adwords_historical: 100,
+  domain_adwords_adwords: 40,
+  domain_shopping: 30,
+  domain_shopping_shopping: 60,
+  domain_organic_organic: 40,
+  domain_organic_unique: 10,
+  domain_organic_subdomains: 10,
+  url_organic: 10,
+  url_adwords: 20,
+  domain_domains: 80,
+  backlinks: 40,
+  backlinks_refdomains: 40,
+  backlinks_overview: 40,
+  backlinks_anchors: 40,
+  backlinks_tld: 40,
+  backlinks_geo: 40,
+  backlinks_pages: 40,
+  backlinks_historical: 40,
+  backlinks_categories: 40,
+  backlinks_comparison: 40,
+  backlinks_matrix: 40,
+  phrase_all: 10,
+  phrase_this: 10,
+  phrase_these: 10,
+  phrase_organic: 10,
+  phrase_adwords: 20,
+  phrase_related: 40,
+  phrase_adwords_historical: 100,
+  phrase_fullsearch: 20,
+  phrase_questions: 40,
+  phrase_kdi: 50,
+  api_units: 0,
+};
+
+// Units charged per line for a report type, or 0 when unknown
+export const getUnitsPerLine = (reportType: string): number =>
+  REPORT_UNIT_COSTS[reportType] ?? 0;
+
+// Upper bound on Semrush's regional databases (about 140), each a line of phrase_all
+const REGIONAL_DATABASES_ESTIMATE = 150;
+
+// Reports that return a fixed number of lines per request
+const FIXED_LINE_REPORTS: Record<string, number> = {
+  domain_ranks: 1,
+  phrase_this: 1,
+  phrase_all: REGIONAL_DATABASES_ESTIMATE,
+  backlinks_overview: 1,
+  backlinks_categories: 10,
+};
+
+// Reports that return one line per requested keyword or target
+const BATCH_REPORTS = new Set(['phrase_these', 'phrase_kdi', 'backlinks_comparison']);
+
+// Semrush returns up to this many lines when no display_limit is set
+export const UNBOUNDED_LINES_ESTIMATE = 10000;
+
+/**
+ * Estimate the worst-case API units a request can spend, before it is sent.
+ * List reports are charged per returned line, so the estimate assumes a full page of
+ * `limit` lines; batch reports return one line per keyword or target in the batch.
+ */
+export function estimateUnits(reportType: string, request: { limit?: number; batchSize?: number }): number {
+  const unitsPerLine = getUnitsPerLine(reportType);
+  if (FIXED_LINE_REPORTS[reportType] !== undefined) {
+    return unitsPerLine * FIXED_LINE_REPORTS[reportType];
+  }
+  if (BATCH_REPORTS.has(reportType)) {
+    return unitsPerLine * (request.batchSize ?? 1);
+  }
+  return unitsPerLine * (request.limit ?? UNBOUNDED_LINES_ESTIMATE);
+}